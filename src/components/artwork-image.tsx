@@ -0,0 +1,28 @@
+import React, { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+
+type ArtworkImageProps = {
+  artwork?: Blob;
+  className?: string;
+  /** Shown instead while there is no artwork or it fails to load. */
+  fallback: React.ReactNode;
+};
+
+export const ArtworkImage = ({ artwork, className, fallback }: ArtworkImageProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setFailed(false);
+    if (!artwork) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(artwork);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [artwork]);
+
+  if (!url || failed) return <>{fallback}</>;
+  return <img src={url} alt="" className={cn("object-cover", className)} onError={() => setFailed(true)} />;
+};
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from "react";
+import { FileText, ImageIcon, NotebookText } from "lucide-react";
+import { ArtworkImage } from "@/components/artwork-image";
+import { PdfViewer } from "@/components/pdf-viewer";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { isNfoPath } from "@/lib/attachments";
+import { decodeCp437, decodeText } from "@/lib/charset";
+import { basename } from "@/lib/folder-tree";
+import { errorMessage } from "@/lib/import/import-report";
+import type { Attachment, AttachmentKind, Playlist } from "@/lib/types";
+
+type BookletDialogProps = {
+  playlist: Playlist | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const TextViewer = ({ attachment }: { attachment: Attachment }) => {
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setText(null);
+    setError(null);
+    attachment.blob
+      .arrayBuffer()
+      .then((buffer) => {
+        const bytes = new Uint8Array(buffer);
+        if (!cancelled) setText(isNfoPath(attachment.path) ? decodeCp437(bytes) : decodeText(bytes));
+      })
+      .catch((e) => !cancelled && setError(errorMessage(e)));
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment]);
+
+  if (error) return <p className="text-sm text-destructive">Could not open the notes: {error}</p>;
+
+  return (
+    <ScrollArea className="h-[60vh] rounded-md border">
+      <pre className="p-3 text-xs font-mono whitespace-pre">{text ?? ""}</pre>
+    </ScrollArea>
+  );
+};
+
+/** Lets the user pick one of several documents of the same kind. */
+const DocumentPicker = ({
+  documents,
+  render,
+}: {
+  documents: Attachment[];
+  render: (attachment: Attachment) => React.ReactNode;
+}) => {
+  const [index, setIndex] = useState(0);
+  const selected = documents[Math.min(index, documents.length - 1)];
+
+  return (
+    <div className="flex flex-col gap-2">
+      {documents.length > 1 && (
+        <Select value={documents.indexOf(selected).toString()} onValueChange={(value) => setIndex(Number(value))}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {documents.map((document, documentIndex) => (
+              <SelectItem key={document.path} value={documentIndex.toString()}>
+                {document.path}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {render(selected)}
+    </div>
+  );
+};
+
+const TABS: { kind: AttachmentKind; label: string; icon: typeof FileText }[] = [
+  { kind: "pdf", label: "Booklet", icon: FileText },
+  { kind: "image", label: "Scans", icon: ImageIcon },
+  { kind: "text", label: "Notes", icon: NotebookText },
+];
+
+export const BookletDialog = ({ playlist, open, onOpenChange }: BookletDialogProps) => {
+  const attachments = playlist?.attachments ?? [];
+  const tabs = TABS.filter(tab => attachments.some(attachment => attachment.kind === tab.kind));
+  const ofKind = (kind: AttachmentKind) => attachments.filter(attachment => attachment.kind === kind);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="truncate">{playlist?.name}</DialogTitle>
+          <DialogDescription>Booklets, scans and notes that came with the music.</DialogDescription>
+        </DialogHeader>
+        {tabs.length > 0 && (
+          <Tabs key={playlist?.id} defaultValue={tabs[0].kind}>
+            <TabsList>
+              {tabs.map(({ kind, label, icon: Icon }) => (
+                <TabsTrigger key={kind} value={kind}>
+                  <Icon className="mr-2 h-4 w-4" />
+                  {label} ({ofKind(kind).length})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            <TabsContent value="pdf">
+              <DocumentPicker documents={ofKind("pdf")} render={attachment => <PdfViewer blob={attachment.blob} />} />
+            </TabsContent>
+            <TabsContent value="image">
+              <Carousel className="mx-12">
+                <CarouselContent>
+                  {ofKind("image").map(attachment => (
+                    <CarouselItem key={attachment.path} className="flex flex-col items-center gap-2">
+                      <ArtworkImage
+                        artwork={attachment.blob}
+                        className="max-h-[60vh] w-auto object-contain"
+                        fallback={<p className="text-sm text-muted-foreground py-8">Could not show this image.</p>}
+                      />
+                      <p className="text-xs text-muted-foreground truncate max-w-full">{basename(attachment.path)}</p>
+                    </CarouselItem>
+                  ))}
+                </CarouselContent>
+                <CarouselPrevious />
+                <CarouselNext />
+              </Carousel>
+            </TabsContent>
+            <TabsContent value="text">
+              <DocumentPicker documents={ofKind("text")} render={attachment => <TextViewer attachment={attachment} />} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,60 @@
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { formatTime } from "@/lib/time";
+import type { Chapter } from "@/lib/types";
+
+/** The chapter playing at `time`: the last one to have started. */
+const chapterAt = (chapters: Chapter[], time: number) =>
+  chapters.reduce((current, chapter, index) => (chapter.start <= time ? index : current), -1);
+
+type ChapterMarkersProps = {
+  chapters: Chapter[];
+  duration: number;
+};
+
+/** Ticks on the progress bar where each chapter after the first begins. */
+export const ChapterMarkers = ({ chapters, duration }: ChapterMarkersProps) => (
+  <>
+    {duration > 0 &&
+      chapters
+        .filter(chapter => chapter.start > 0 && chapter.start < duration)
+        .map((chapter, index) => (
+          <div
+            key={index}
+            title={chapter.title}
+            className="absolute top-0 h-full w-0.5 bg-background"
+            style={{ left: `${(chapter.start / duration) * 100}%` }}
+          />
+        ))}
+  </>
+);
+
+type ChapterListProps = {
+  chapters: Chapter[];
+  currentTime: number;
+  onSeek: (time: number) => void;
+};
+
+export const ChapterList = ({ chapters, currentTime, onSeek }: ChapterListProps) => {
+  const current = chapterAt(chapters, currentTime);
+
+  return (
+    <ScrollArea className="h-32 w-full rounded-md border">
+      <div className="p-2">
+        {chapters.map((chapter, index) => (
+          <div
+            key={index}
+            onClick={() => onSeek(chapter.start)}
+            className={cn(
+              "p-1 px-2 rounded-md flex items-center gap-2 cursor-pointer text-sm hover:bg-accent",
+              index === current && "bg-accent text-accent-foreground",
+            )}
+          >
+            <span className="text-xs text-muted-foreground w-12 flex-shrink-0">{formatTime(chapter.start)}</span>
+            <span className="truncate">{chapter.title || `Chapter ${index + 1}`}</span>
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+};
@@ -0,0 +1,80 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { decodeWithCharset, LEGACY_CHARSETS } from "@/lib/charset";
+
+export type CharsetPrompt = {
+  archiveName: string;
+  /** Undecoded file names and tags from the archive. */
+  samples: Uint8Array[];
+  /** The charset the samples look to be in. */
+  guess: string;
+};
+
+type CharsetDialogProps = {
+  prompt: CharsetPrompt | null;
+  /** Called with null when the user keeps the default readings. */
+  onAnswer: (charset: string | null) => void;
+};
+
+/** Lets the user pick the charset of an archive's names and tags, previewing them as they would read. */
+export const CharsetDialog = ({ prompt, onAnswer }: CharsetDialogProps) => {
+  const [charset, setCharset] = useState("");
+
+  useEffect(() => {
+    if (prompt) setCharset(prompt.guess);
+  }, [prompt]);
+
+  const preview = useMemo(
+    () => (prompt && charset ? [...new Set(prompt.samples.map(sample => decodeWithCharset(sample, charset)))] : []),
+    [prompt, charset],
+  );
+
+  return (
+    <Dialog open={prompt !== null} onOpenChange={(open) => !open && onAnswer(null)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Choose a character set</DialogTitle>
+          <DialogDescription>
+            Some file names or tags in {prompt?.archiveName} don't say how they are encoded and look garbled as they
+            are. Pick the character set that makes them readable.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="archive-charset">Character set</Label>
+          <Select value={charset} onValueChange={setCharset}>
+            <SelectTrigger id="archive-charset">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LEGACY_CHARSETS.map(({ id, label }) => (
+                <SelectItem key={id} value={id}>
+                  {id === prompt?.guess ? `${label}, detected` : label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <ScrollArea className="h-48 rounded-md border">
+          <ul className="p-2 text-sm">
+            {preview.map(text => <li key={text} className="truncate" title={text}>{text}</li>)}
+          </ul>
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onAnswer(null)}>Keep as is</Button>
+          <Button disabled={!charset} onClick={() => onAnswer(charset)}>Use this character set</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { collectDataTransferFiles, type SourceFile } from "@/lib/import/dropped-files";
+
+type DropZoneProps = {
+  onFiles: (files: SourceFile[]) => void;
+  disabled?: boolean;
+  className?: string;
+  children: React.ReactNode;
+};
+
+export const DropZone = ({ onFiles, disabled, className, children }: DropZoneProps) => {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave fire for every child element, so count them.
+  const dragDepth = useRef(0);
+
+  const hasFiles = (event: React.DragEvent) => event.dataTransfer.types.includes("Files");
+
+  const handleDragEnter = (event: React.DragEvent) => {
+    if (disabled || !hasFiles(event)) return;
+    event.preventDefault();
+    dragDepth.current += 1;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (disabled || !hasFiles(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "copy";
+  };
+
+  const handleDragLeave = () => {
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = async (event: React.DragEvent) => {
+    if (disabled || !hasFiles(event)) return;
+    event.preventDefault();
+    dragDepth.current = 0;
+    setIsDragging(false);
+
+    try {
+      const files = await collectDataTransferFiles(event.dataTransfer);
+      if (files.length > 0) onFiles(files);
+    } catch (error) {
+      console.error("Error reading dropped files:", error);
+    }
+  };
+
+  return (
+    <div
+      className={cn("relative", className)}
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+      {isDragging && (
+        <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-primary bg-background/90 pointer-events-none">
+          <Upload className="w-8 h-8" />
+          <p className="font-medium">Drop archives, audio files or folders</p>
+        </div>
+      )}
+    </div>
+  );
+};
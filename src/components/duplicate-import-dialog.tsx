@@ -0,0 +1,46 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { DuplicateChoice, DuplicateSummary } from "@/lib/duplicates";
+
+type DuplicateImportDialogProps = {
+  duplicates: DuplicateSummary[] | null;
+  onChoose: (choice: DuplicateChoice) => void;
+};
+
+export const DuplicateImportDialog = ({ duplicates, onChoose }: DuplicateImportDialogProps) => (
+  <AlertDialog open={duplicates !== null}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>Already in your library</AlertDialogTitle>
+        <AlertDialogDescription asChild>
+          <div className="flex flex-col gap-2">
+            <p>Some of the imported tracks are identical to ones you already have.</p>
+            <ul className="list-disc pl-5">
+              {duplicates?.map(({ playlist, duplicateCount }, index) => (
+                <li key={index} className="truncate">
+                  {playlist.name}:{" "}
+                  {duplicateCount === playlist.tracks.length
+                    ? "every track is a duplicate"
+                    : `${duplicateCount} of ${playlist.tracks.length} tracks are duplicates`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel onClick={() => onChoose("skip")}>Skip duplicates</AlertDialogCancel>
+        <AlertDialogAction onClick={() => onChoose("import")}>Import anyway</AlertDialogAction>
+        <AlertDialogAction onClick={() => onChoose("merge")}>Merge</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
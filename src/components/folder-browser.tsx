@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from "react";
+import { Download, Folder, ListPlus, Music, Pause, Play, Plus, Tags } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { ArtworkImage } from "@/components/artwork-image";
+import { cn } from "@/lib/utils";
+import { folderAncestors, listFolder, trackIndexesInFolder } from "@/lib/folder-tree";
+import { shortTempoAndKey } from "@/lib/music-analysis";
+import { CAMELOT_KEYS, camelotKey, keyName } from "@/lib/musical-key";
+import { formatTime } from "@/lib/time";
+import { DEFAULT_TRACK_FILTER, filterTracks, isFiltering, parseBpmRange, type TrackOrder } from "@/lib/track-filter";
+import { trackArtist, trackTitle } from "@/lib/track-tags";
+import type { Track } from "@/lib/types";
+
+type FolderBrowserProps = {
+  rootName: string;
+  tracks: Track[];
+  currentTrackIndex: number | null;
+  isPlaying: boolean;
+  onSelectTrack: (index: number) => void;
+  onQueueTrack: (index: number) => void;
+  onPlayFolder: (folderPath: string) => void;
+  onQueueFolder: (folderPath: string) => void;
+  /** Opens the tag editor on one track or several. */
+  onEditTags: (tracks: Track[]) => void;
+  onDownloadTrack: (index: number) => void;
+};
+
+export const FolderBrowser = ({
+  rootName,
+  tracks,
+  currentTrackIndex,
+  isPlaying,
+  onSelectTrack,
+  onQueueTrack,
+  onPlayFolder,
+  onQueueFolder,
+  onEditTags,
+  onDownloadTrack,
+}: FolderBrowserProps) => {
+  const [folderPath, setFolderPath] = useState("");
+  // Tracks picked for editing together, by id so the selection survives the
+  // playlist being reordered, as when a finished import replaces it; the
+  // selection can span folders.
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Sorting or filtering lists every matching track in and below the folder.
+  const [filter, setFilter] = useState(DEFAULT_TRACK_FILTER);
+  const listing = isFiltering(filter)
+    ? { folders: [], tracks: filterTracks(tracks, folderPath, filter) }
+    : listFolder(tracks, folderPath);
+  const ancestors = folderAncestors(folderPath);
+
+  const openFolder = (path: string) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    setFolderPath(path);
+  };
+
+  useEffect(() => {
+    setSelected(previous => {
+      const trackIds = new Set(tracks.map(track => track.id));
+      const kept = [...previous].filter(id => trackIds.has(id));
+      return kept.length === previous.size ? previous : new Set(kept);
+    });
+  }, [tracks]);
+
+  const toggleSelected = (trackId: string) =>
+    setSelected(previous => {
+      const next = new Set(previous);
+      if (!next.delete(trackId)) next.add(trackId);
+      return next;
+    });
+
+  const selectFolder = () => setSelected(previous => new Set([...previous, ...listing.tracks.map(({ track }) => track.id)]));
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            {ancestors.length === 0 ? (
+              <BreadcrumbPage className="truncate max-w-[160px]">{rootName}</BreadcrumbPage>
+            ) : (
+              <BreadcrumbLink href="#" onClick={openFolder("")} className="truncate max-w-[160px]">
+                {rootName}
+              </BreadcrumbLink>
+            )}
+          </BreadcrumbItem>
+          {ancestors.map((folder, index) => (
+            <React.Fragment key={folder.path}>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                {index === ancestors.length - 1 ? (
+                  <BreadcrumbPage className="truncate max-w-[160px]">{folder.name}</BreadcrumbPage>
+                ) : (
+                  <BreadcrumbLink href="#" onClick={openFolder(folder.path)} className="truncate max-w-[160px]">
+                    {folder.name}
+                  </BreadcrumbLink>
+                )}
+              </BreadcrumbItem>
+            </React.Fragment>
+          ))}
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex items-center gap-2">
+        <Select value={filter.order} onValueChange={(order) => setFilter(previous => ({ ...previous, order: order as TrackOrder }))}>
+          <SelectTrigger className="h-8 w-32 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="folder">Folder order</SelectItem>
+            <SelectItem value="bpm">By BPM</SelectItem>
+            <SelectItem value="key">By key</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          className={cn("h-8 w-28 text-xs", filter.bpm.trim() && !parseBpmRange(filter.bpm) && "border-destructive")}
+          placeholder="BPM, e.g. 120-130"
+          value={filter.bpm}
+          onChange={(e) => setFilter(previous => ({ ...previous, bpm: e.target.value }))}
+        />
+        <Select
+          value={filter.key || "any"}
+          onValueChange={(key) => setFilter(previous => ({ ...previous, key: key === "any" ? "" : key }))}
+        >
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any key</SelectItem>
+            {CAMELOT_KEYS.map(key => (
+              <SelectItem key={camelotKey(key)} value={camelotKey(key)}>{camelotKey(key)} · {keyName(key)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {selected.size > 0 && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="flex-grow text-muted-foreground">{selected.size} selected</span>
+          <Button variant="ghost" size="sm" onClick={selectFolder}>Select folder</Button>
+          <Button variant="ghost" size="sm" onClick={() => setSelected(new Set())}>Clear</Button>
+          <Button variant="outline" size="sm" onClick={() => onEditTags(tracks.filter(track => selected.has(track.id)))}>
+            <Tags className="mr-2 h-4 w-4" />
+            Edit tags
+          </Button>
+        </div>
+      )}
+
+      <ScrollArea className="h-48 w-full rounded-md border">
+        <div className="p-2">
+          {listing.folders.map(folder => (
+            <div key={folder.path} className="p-2 rounded-md flex items-center justify-between gap-2 group hover:bg-accent">
+              <div onClick={() => setFolderPath(folder.path)} className="flex items-center gap-2 cursor-pointer flex-grow truncate">
+                <Folder className="w-4 h-4 flex-shrink-0" />
+                <span className="truncate">{folder.name}</span>
+                <span className="text-xs text-muted-foreground flex-shrink-0">{folder.trackCount}</span>
+              </div>
+              <div className="flex flex-shrink-0 invisible group-hover:visible">
+                <Button variant="ghost" size="icon" className="h-6 w-6" title="Play folder" onClick={() => onPlayFolder(folder.path)}>
+                  <Play className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-6 w-6" title="Queue folder" onClick={() => onQueueFolder(folder.path)}>
+                  <ListPlus className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title="Edit folder's tags"
+                  onClick={() => onEditTags(trackIndexesInFolder(tracks, folder.path).map(index => tracks[index]))}
+                >
+                  <Tags className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {listing.tracks.map(({ track, index }) => (
+            <div
+              key={track.id}
+              className={cn(
+                "p-2 rounded-md flex items-center justify-between gap-2 group",
+                index === currentTrackIndex && "bg-accent text-accent-foreground",
+              )}
+            >
+              <Checkbox
+                checked={selected.has(track.id)}
+                onCheckedChange={() => toggleSelected(track.id)}
+                className={cn(selected.size === 0 && "invisible group-hover:visible")}
+                aria-label="Select track"
+              />
+              <div onClick={() => onSelectTrack(index)} className="flex items-center gap-2 cursor-pointer flex-grow truncate">
+                {index === currentTrackIndex && isPlaying && <Play className="w-4 h-4 flex-shrink-0" />}
+                {index === currentTrackIndex && !isPlaying && <Pause className="w-4 h-4 flex-shrink-0" />}
+                <ArtworkImage
+                  artwork={track.artwork}
+                  className="w-6 h-6 rounded-sm flex-shrink-0"
+                  fallback={<Music className="w-4 h-4 flex-shrink-0" />}
+                />
+                {track.tags.trackNumber && (
+                  <span className="text-xs text-muted-foreground w-5 text-right flex-shrink-0">{track.tags.trackNumber}</span>
+                )}
+                <div className="truncate" title={track.name}>
+                  <p className="truncate">{trackTitle(track)}</p>
+                  {trackArtist(track) && <p className="text-xs text-muted-foreground truncate">{trackArtist(track)}</p>}
+                </div>
+                <span className="ml-auto flex gap-2 text-xs text-muted-foreground flex-shrink-0">
+                  {shortTempoAndKey(track) && <span title={track.key && keyName(track.key)}>{shortTempoAndKey(track)}</span>}
+                  {track.duration !== undefined && <span>{formatTime(track.duration)}</span>}
+                </span>
+              </div>
+              <div className="flex flex-shrink-0 invisible group-hover:visible">
+                <Button variant="ghost" size="icon" className="h-6 w-6" title="Edit tags" onClick={() => onEditTags([track])}>
+                  <Tags className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-6 w-6" title="Download" onClick={() => onDownloadTrack(index)}>
+                  <Download className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-6 w-6" title="Add to queue" onClick={() => onQueueTrack(index)}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { formatBytes } from "@/lib/format";
+import type { ImportProgress } from "@/lib/import/import-progress";
+
+type ImportProgressPanelProps = {
+  progress: ImportProgress | null;
+  startedAt: number;
+  onCancel: (keepImported: boolean) => void;
+};
+
+const formatRemaining = (seconds: number) => {
+  if (!isFinite(seconds)) return "estimating…";
+  if (seconds < 60) return `${Math.ceil(seconds)}s left`;
+  return `${Math.floor(seconds / 60)}m ${Math.ceil(seconds % 60)}s left`;
+};
+
+export const ImportProgressPanel = ({ progress, startedAt, onCancel }: ImportProgressPanelProps) => {
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const bytesDone = progress?.bytesDone ?? 0;
+  const bytesTotal = progress?.bytesTotal ?? 0;
+  const elapsedSeconds = (Date.now() - startedAt) / 1000;
+  const remainingSeconds = bytesDone > 0 ? (elapsedSeconds / bytesDone) * (bytesTotal - bytesDone) : Infinity;
+
+  return (
+    <div className="flex flex-col gap-3 rounded-md border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
+          <p className="text-sm font-medium truncate">
+            {progress?.stage === "downloading"
+              ? `Downloading ${progress.archiveName}`
+              : progress?.archiveName
+                ? `Importing ${progress.archiveName} (${progress.archiveIndex} of ${progress.archiveCount})`
+                : "Preparing import..."}
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => setConfirmOpen(true)}>
+          <X className="mr-1 h-4 w-4" />
+          Cancel
+        </Button>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <Progress value={bytesTotal > 0 ? (bytesDone / bytesTotal) * 100 : 0} className="h-2" />
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{bytesTotal > 0 ? `${formatBytes(bytesDone)} of ${formatBytes(bytesTotal)}` : formatBytes(bytesDone)}</span>
+          <span>{formatRemaining(remainingSeconds)}</span>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <Progress value={progress?.percent ?? 0} className="h-2" />
+        <p className="text-xs text-muted-foreground truncate">{progress?.currentFile ?? "Reading archive..."}</p>
+      </div>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tracks found so far can be kept as playlists or thrown away.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep importing</AlertDialogCancel>
+            <AlertDialogAction onClick={() => onCancel(false)}>Discard tracks</AlertDialogAction>
+            <AlertDialogAction onClick={() => onCancel(true)}>Keep tracks</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  countOutcomes,
+  FAILED_OUTCOMES,
+  IMPORT_OUTCOMES,
+  type ImportOutcome,
+  type ImportReport,
+} from "@/lib/import/import-report";
+
+type ImportReportDialogProps = {
+  report: ImportReport | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const OUTCOME_LABELS: Record<ImportOutcome, string> = {
+  imported: "Imported",
+  unsupported: "Unsupported format",
+  corrupt: "Corrupt",
+  encrypted: "Encrypted",
+  duplicate: "Duplicate",
+  filtered: "Filtered",
+};
+
+const outcomeVariant = (outcome: ImportOutcome) => {
+  if (outcome === "imported") return "default";
+  if (FAILED_OUTCOMES.includes(outcome)) return "destructive";
+  return "secondary";
+};
+
+export const ImportReportDialog = ({ report, open, onOpenChange }: ImportReportDialogProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-2xl">
+      <DialogHeader>
+        <DialogTitle>Import report</DialogTitle>
+        <DialogDescription>What happened to every entry in the last import.</DialogDescription>
+      </DialogHeader>
+      <ScrollArea className="max-h-[60vh] pr-3">
+        <div className="flex flex-col gap-6">
+          {report?.archives.map((archive, archiveIndex) => {
+            const counts = countOutcomes(archive.entries);
+            return (
+              <div key={archiveIndex} className="flex flex-col gap-2">
+                <p className="font-semibold truncate">{archive.name}</p>
+                {archive.error ? (
+                  <p className="text-sm text-destructive">Could not read archive: {archive.error}</p>
+                ) : (
+                  <>
+                    <div className="flex flex-wrap gap-1">
+                      {IMPORT_OUTCOMES.filter(outcome => counts[outcome] > 0).map(outcome => (
+                        <Badge key={outcome} variant={outcomeVariant(outcome)}>
+                          {OUTCOME_LABELS[outcome]}: {counts[outcome]}
+                        </Badge>
+                      ))}
+                    </div>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Entry</TableHead>
+                          <TableHead>Outcome</TableHead>
+                          <TableHead>Details</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {archive.entries.map((entry, index) => (
+                          <TableRow key={index}>
+                            <TableCell className="max-w-[240px] truncate" title={entry.path}>{entry.path}</TableCell>
+                            <TableCell>
+                              <Badge variant={outcomeVariant(entry.outcome)}>{OUTCOME_LABELS[entry.outcome]}</Badge>
+                            </TableCell>
+                            <TableCell className="text-muted-foreground">{entry.detail}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </DialogContent>
+  </Dialog>
+);
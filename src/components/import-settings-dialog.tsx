@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DEFAULT_IMPORT_LIMITS, type ImportLimits } from "@/lib/import/import-limits";
+
+type ImportSettingsDialogProps = {
+  limits: ImportLimits;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (limits: ImportLimits) => void;
+};
+
+const GB = 1024 * 1024 * 1024;
+
+type LimitField = {
+  key: keyof ImportLimits;
+  label: string;
+  /** Factor between the stored value and what the user types. */
+  scale: number;
+};
+
+const LIMIT_FIELDS: LimitField[] = [
+  { key: "maxTotalBytes", label: "Total uncompressed size per archive (GB)", scale: GB },
+  { key: "maxEntryBytes", label: "Size of a single entry (GB)", scale: GB },
+  { key: "maxCompressionRatio", label: "Compression ratio", scale: 1 },
+  { key: "maxEntryCount", label: "Entries per archive", scale: 1 },
+];
+
+type LimitValues = Record<keyof ImportLimits, string>;
+
+const toValues = (limits: ImportLimits) =>
+  Object.fromEntries(LIMIT_FIELDS.map(field => [field.key, String(limits[field.key] / field.scale)])) as LimitValues;
+
+const fromValues = (values: LimitValues, fallback: ImportLimits): ImportLimits =>
+  Object.fromEntries(LIMIT_FIELDS.map(field => {
+    const parsed = parseFloat(values[field.key]);
+    return [field.key, !isNaN(parsed) && parsed > 0 ? Math.round(parsed * field.scale) : fallback[field.key]];
+  })) as ImportLimits;
+
+export const ImportSettingsDialog = ({ limits, open, onOpenChange, onSave }: ImportSettingsDialogProps) => {
+  const [values, setValues] = useState(() => toValues(limits));
+
+  useEffect(() => {
+    if (open) setValues(toValues(limits));
+  }, [open, limits]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import limits</DialogTitle>
+          <DialogDescription>
+            Archives or entries beyond these limits are skipped, which protects against zip bombs.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-4">
+          {LIMIT_FIELDS.map(field => (
+            <div key={field.key} className="flex flex-col gap-2">
+              <Label htmlFor={field.key}>{field.label}</Label>
+              <Input
+                id={field.key}
+                type="number"
+                min={0}
+                step="any"
+                value={values[field.key]}
+                onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setValues(toValues(DEFAULT_IMPORT_LIMITS))}>Reset to defaults</Button>
+          <Button
+            onClick={() => {
+              onSave(fromValues(values, limits));
+              onOpenChange(false);
+            }}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,145 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DEFAULT_NAMING_PATTERNS,
+  fillFromPath,
+  PLACEHOLDER_NAMES,
+  unknownPlaceholders,
+  type NamingPatterns,
+} from "@/lib/naming-patterns";
+import type { TrackEdit } from "@/lib/tag-editing";
+import type { Track, TrackTags } from "@/lib/types";
+
+type NamingPatternsDialogProps = {
+  tracks: Track[];
+  patterns: NamingPatterns;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApply: (patterns: NamingPatterns, edits: TrackEdit[]) => void;
+};
+
+const PREVIEW_COLUMNS: { field: keyof TrackTags; label: string }[] = [
+  { field: "discNumber", label: "Disc" },
+  { field: "trackNumber", label: "#" },
+  { field: "artist", label: "Artist" },
+  { field: "title", label: "Title" },
+  { field: "album", label: "Album" },
+  { field: "albumArtist", label: "Album artist" },
+  { field: "year", label: "Year" },
+  { field: "genre", label: "Genre" },
+];
+
+const toLines = (text: string) => text.split("\n").map(line => line.trim()).filter(Boolean);
+
+/**
+ * Fills missing tags from file and folder names. The preview lists only
+ * what applying would add; tags a track already has are never replaced.
+ */
+export const NamingPatternsDialog = ({ tracks, patterns, open, onOpenChange, onApply }: NamingPatternsDialogProps) => {
+  const [fileText, setFileText] = useState("");
+  const [folderText, setFolderText] = useState("");
+
+  const setPatterns = ({ file, folder }: NamingPatterns) => {
+    setFileText(file.join("\n"));
+    setFolderText(folder.join("\n"));
+  };
+
+  useEffect(() => {
+    if (open) setPatterns(patterns);
+  }, [open, patterns]);
+
+  const edited: NamingPatterns = useMemo(() => ({ file: toLines(fileText), folder: toLines(folderText) }), [fileText, folderText]);
+  const edits = useMemo(
+    () => (open ? tracks.map(track => ({ track, edit: fillFromPath(track, edited) })).filter(({ edit }) => Object.keys(edit).length > 0) : []),
+    [open, tracks, edited],
+  );
+  const columns = PREVIEW_COLUMNS.filter(({ field }) => edits.some(({ edit }) => edit[field] !== undefined));
+  const unknown = [...new Set([...edited.file, ...edited.folder].flatMap(unknownPlaceholders))];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Tags from file names</DialogTitle>
+          <DialogDescription>
+            One pattern per line, tried in order. Placeholders: {PLACEHOLDER_NAMES.join(" ")}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="file-patterns">File names</Label>
+            <Textarea
+              id="file-patterns"
+              rows={4}
+              className="font-mono text-xs"
+              value={fileText}
+              onChange={(e) => setFileText(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="folder-patterns">Folders</Label>
+            <Textarea
+              id="folder-patterns"
+              rows={4}
+              className="font-mono text-xs"
+              value={folderText}
+              onChange={(e) => setFolderText(e.target.value)}
+            />
+          </div>
+        </div>
+        {unknown.length > 0 && <p className="text-sm text-destructive">Unknown placeholders: {unknown.join(" ")}</p>}
+
+        <p className="text-sm text-muted-foreground">
+          {edits.length > 0
+            ? `${edits.length} of ${tracks.length} tracks get missing tags filled in:`
+            : "No track is missing anything these patterns find."}
+        </p>
+        {edits.length > 0 && (
+          <ScrollArea className="h-64 rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  {columns.map(({ field, label }) => <TableHead key={field}>{label}</TableHead>)}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {edits.map(({ track, edit }) => (
+                  <TableRow key={track.id}>
+                    <TableCell className="max-w-[200px] truncate text-xs text-muted-foreground" title={track.path}>{track.path}</TableCell>
+                    {columns.map(({ field }) => <TableCell key={field}>{edit[field]}</TableCell>)}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setPatterns(DEFAULT_NAMING_PATTERNS)}>Reset to defaults</Button>
+          <Button
+            disabled={edits.length === 0}
+            onClick={() => {
+              onApply(edited, edits);
+              onOpenChange(false);
+            }}
+          >
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export type PasswordPrompt = {
+  archiveName: string;
+  /** Set when the previous password didn't open the archive. */
+  retry: boolean;
+};
+
+type PasswordDialogProps = {
+  prompt: PasswordPrompt | null;
+  /** Called with null when the user skips the encrypted entries. */
+  onAnswer: (password: string | null) => void;
+};
+
+export const PasswordDialog = ({ prompt, onAnswer }: PasswordDialogProps) => {
+  const [password, setPassword] = useState("");
+
+  useEffect(() => {
+    if (prompt) setPassword("");
+  }, [prompt]);
+
+  return (
+    <Dialog open={prompt !== null} onOpenChange={(open) => !open && onAnswer(null)}>
+      <DialogContent>
+        <form
+          className="flex flex-col gap-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onAnswer(password);
+          }}
+        >
+          <DialogHeader>
+            <DialogTitle>Password required</DialogTitle>
+            <DialogDescription>
+              {prompt?.archiveName} contains encrypted files. Enter its password to import them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="archive-password">Password</Label>
+            <Input
+              id="archive-password"
+              type="password"
+              autoFocus
+              autoComplete="off"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            {prompt?.retry && <p className="text-sm text-destructive">Wrong password, try again.</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onAnswer(null)}>Skip encrypted files</Button>
+            <Button type="submit" disabled={password === ""}>Unlock</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { errorMessage } from "@/lib/import/import-report";
+import { openPdf } from "@/lib/pdf";
+
+type PdfViewerProps = {
+  blob: Blob;
+};
+
+/** Renders one page of a PDF at a time, scaled to the viewer's width. */
+export const PdfViewer = ({ blob }: PdfViewerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let opened: PDFDocumentProxy | null = null;
+    setPdf(null);
+    setPageNumber(1);
+    setError(null);
+    openPdf(blob)
+      .then((document) => {
+        opened = document;
+        if (cancelled) document.destroy();
+        else setPdf(document);
+      })
+      .catch((e) => !cancelled && setError(errorMessage(e)));
+    return () => {
+      cancelled = true;
+      opened?.destroy();
+    };
+  }, [blob]);
+
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    pdf.getPage(pageNumber).then((page) => {
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      const width = canvas.parentElement?.clientWidth || 600;
+      const scale = (width / page.getViewport({ scale: 1 }).width) * window.devicePixelRatio;
+      const viewport = page.getViewport({ scale });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      renderTask = page.render({ canvasContext: canvas.getContext("2d"), viewport });
+      // Cancelling a render rejects its promise.
+      renderTask.promise.catch(() => {});
+    }).catch((e) => !cancelled && setError(errorMessage(e)));
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber]);
+
+  if (error) return <p className="text-sm text-destructive">Could not open the PDF: {error}</p>;
+  if (!pdf) return <p className="text-sm text-muted-foreground py-8 text-center">Opening PDF…</p>;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <ScrollArea className="h-[60vh] rounded-md border">
+        <canvas ref={canvasRef} className="w-full" />
+      </ScrollArea>
+      <div className="flex items-center justify-center gap-2">
+        <Button variant="outline" size="icon" disabled={pageNumber <= 1} onClick={() => setPageNumber(page => page - 1)}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          Page {pageNumber} of {pdf.numPages}
+        </span>
+        <Button
+          variant="outline"
+          size="icon"
+          disabled={pageNumber >= pdf.numPages}
+          onClick={() => setPageNumber(page => page + 1)}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,189 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { canWriteTags, type TagEdit } from "@/lib/tag-editing";
+import { trackTitle } from "@/lib/track-tags";
+import type { Track, TrackTags } from "@/lib/types";
+
+const wholeNumber = z.string().trim().regex(/^\d*$/, "Enter a whole number");
+
+const tagFields = z.object({
+  title: z.string().trim(),
+  artist: z.string().trim(),
+  album: z.string().trim(),
+  albumArtist: z.string().trim(),
+  trackNumber: wholeNumber,
+  trackTotal: wholeNumber,
+  discNumber: wholeNumber,
+  discTotal: wholeNumber,
+  year: z.string().trim().regex(/^(\d{4})?$/, "Enter a four-digit year"),
+  genre: z.string().trim(),
+  comment: z.string().trim(),
+});
+
+const tagSchema = tagFields
+  .refine(({ trackNumber, trackTotal }) => !trackNumber || !trackTotal || Number(trackNumber) <= Number(trackTotal), {
+    message: "More than the total",
+    path: ["trackNumber"],
+  })
+  .refine(({ discNumber, discTotal }) => !discNumber || !discTotal || Number(discNumber) <= Number(discTotal), {
+    message: "More than the total",
+    path: ["discNumber"],
+  });
+
+type TagFormValues = z.infer<typeof tagSchema>;
+type TagField = keyof TagFormValues;
+
+const NUMBER_FIELDS: TagField[] = ["trackNumber", "trackTotal", "discNumber", "discTotal", "year"];
+
+const toFormValue = (value: TrackTags[TagField]) => (value === undefined ? "" : String(value));
+
+/** A field's shared value, or null when the tracks disagree on it. */
+const sharedValue = (tracks: Track[], field: TagField) => {
+  const values = new Set(tracks.map(track => toFormValue(track.tags[field])));
+  return values.size === 1 ? [...values][0] : null;
+};
+
+const initialValues = (tracks: Track[]) =>
+  Object.fromEntries(Object.keys(tagFields.shape).map(field => [field, sharedValue(tracks, field as TagField) ?? ""])) as TagFormValues;
+
+const fromFormValue = (field: TagField, value: string) => {
+  if (!value) return undefined;
+  return NUMBER_FIELDS.includes(field) ? Number(value) || undefined : value;
+};
+
+type TagEditorDialogProps = {
+  /** The track or selection being edited; null while the dialog is closed. */
+  tracks: Track[] | null;
+  onClose: () => void;
+  onSave: (tracks: Track[], edit: TagEdit) => void;
+};
+
+type FieldLayout = {
+  name: TagField;
+  label: string;
+  /** Short fields, such as a number and its total, share a row. */
+  narrow?: boolean;
+};
+
+const FIELD_ROWS: FieldLayout[][] = [
+  [{ name: "title", label: "Title" }],
+  [{ name: "artist", label: "Artist" }],
+  [{ name: "album", label: "Album" }],
+  [{ name: "albumArtist", label: "Album artist" }],
+  [
+    { name: "trackNumber", label: "Track", narrow: true },
+    { name: "trackTotal", label: "of", narrow: true },
+    { name: "discNumber", label: "Disc", narrow: true },
+    { name: "discTotal", label: "of", narrow: true },
+  ],
+  [
+    { name: "year", label: "Year", narrow: true },
+    { name: "genre", label: "Genre" },
+  ],
+];
+
+/**
+ * Edits the tags of one track, or of several at once. With a selection,
+ * fields the tracks disagree on start out empty and are left alone unless
+ * the user types into them; clearing a field removes the tag.
+ */
+export const TagEditorDialog = ({ tracks, onClose, onSave }: TagEditorDialogProps) => {
+  const form = useForm<TagFormValues>({
+    resolver: zodResolver(tagSchema),
+    defaultValues: initialValues([]),
+  });
+
+  useEffect(() => {
+    if (tracks) form.reset(initialValues(tracks));
+  }, [tracks, form]);
+
+  const selection = tracks ?? [];
+  const isBatch = selection.length > 1;
+  const unwritableCount = selection.filter(track => !canWriteTags(track)).length;
+  const placeholder = (field: TagField) => (sharedValue(selection, field) === null ? "Multiple values" : undefined);
+
+  const submit = (values: TagFormValues) => {
+    const { dirtyFields } = form.formState;
+    const edit: TagEdit = Object.fromEntries(
+      (Object.keys(values) as TagField[])
+        .filter(field => dirtyFields[field])
+        .map(field => [field, fromFormValue(field, values[field])]),
+    );
+    onSave(selection, edit);
+  };
+
+  return (
+    <Dialog open={tracks !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <Form {...form}>
+          <form className="flex flex-col gap-4" onSubmit={form.handleSubmit(submit)}>
+            <DialogHeader>
+              <DialogTitle className="truncate">
+                {isBatch ? `Edit tags of ${selection.length} tracks` : selection[0] && `Edit tags of '${trackTitle(selection[0])}'`}
+              </DialogTitle>
+              <DialogDescription>
+                Changes are written into the files, so downloads and exports carry them.
+                {unwritableCount > 0 &&
+                  ` ${isBatch ? `${unwritableCount} of these tracks` : "This track"} can only keep them in the player:` +
+                  " WAV, AIFF and Matroska files and tracks from CUE sheets can't be retagged."}
+              </DialogDescription>
+            </DialogHeader>
+
+            {FIELD_ROWS.map((row, rowIndex) => (
+              <div key={rowIndex} className="flex gap-2">
+                {row.map(({ name, label, narrow }) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem className={narrow ? "w-20 flex-shrink-0" : "flex-grow"}>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          <Input inputMode={NUMBER_FIELDS.includes(name) ? "numeric" : undefined} placeholder={placeholder(name)} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            ))}
+            <FormField
+              control={form.control}
+              name="comment"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Comment</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder={placeholder("comment")} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+              <Button type="submit" disabled={!form.formState.isDirty}>Save</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+type UrlImportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (url: string) => void;
+};
+
+const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value, window.location.href);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+export const UrlImportDialog = ({ open, onOpenChange, onImport }: UrlImportDialogProps) => {
+  const [url, setUrl] = useState("");
+
+  useEffect(() => {
+    if (open) setUrl("");
+  }, [open]);
+
+  const trimmedUrl = url.trim();
+  const isValid = trimmedUrl !== "" && isValidUrl(trimmedUrl);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form
+          className="flex flex-col gap-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!isValid) return;
+            onImport(trimmedUrl);
+            onOpenChange(false);
+          }}
+        >
+          <DialogHeader>
+            <DialogTitle>Import from URL</DialogTitle>
+            <DialogDescription>
+              Download an archive or audio file and import it. Interrupted downloads resume where they left off
+              if the server supports range requests.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="import-url">URL</Label>
+            <Input
+              id="import-url"
+              type="text"
+              inputMode="url"
+              placeholder="https://files.example.com/albums/album.zip"
+              autoFocus
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+            {trimmedUrl !== "" && !isValid && <p className="text-sm text-destructive">Enter an http or https URL.</p>}
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={!isValid}>Import</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,110 @@
+// AES block encryption (FIPS-197) for WinZip AES entries. Web Crypto only
+// offers AES-CTR with a big-endian counter, while WinZip counts
+// little-endian, so the keystream has to be produced block by block here.
+
+const SBOX = new Uint8Array(256);
+const T0 = new Uint32Array(256);
+const T1 = new Uint32Array(256);
+const T2 = new Uint32Array(256);
+const T3 = new Uint32Array(256);
+
+const rotateByte = (x: number, shift: number) => ((x << shift) | (x >>> (8 - shift))) & 0xff;
+const double = (x: number) => ((x << 1) ^ (x & 0x80 ? 0x1b : 0)) & 0xff;
+
+(() => {
+  // Walks the multiplicative group with generator 3 and its inverse, which
+  // yields every element's inverse alongside it, then applies the affine map.
+  let p = 1;
+  let q = 1;
+  do {
+    p = p ^ double(p);
+    q ^= q << 1;
+    q ^= q << 2;
+    q ^= q << 4;
+    q &= 0xff;
+    if (q & 0x80) q ^= 0x09;
+    SBOX[p] = q ^ rotateByte(q, 1) ^ rotateByte(q, 2) ^ rotateByte(q, 3) ^ rotateByte(q, 4) ^ 0x63;
+  } while (p !== 1);
+  SBOX[0] = 0x63;
+
+  for (let i = 0; i < 256; i++) {
+    const s = SBOX[i];
+    const word = ((double(s) << 24) | (s << 16) | (s << 8) | (double(s) ^ s)) >>> 0;
+    T0[i] = word;
+    T1[i] = ((word >>> 8) | (word << 24)) >>> 0;
+    T2[i] = ((word >>> 16) | (word << 16)) >>> 0;
+    T3[i] = ((word >>> 24) | (word << 8)) >>> 0;
+  }
+})();
+
+const subWord = (word: number) =>
+  ((SBOX[word >>> 24] << 24) | (SBOX[(word >>> 16) & 0xff] << 16) | (SBOX[(word >>> 8) & 0xff] << 8) | SBOX[word & 0xff]) >>> 0;
+
+const readWord = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const writeWord = (bytes: Uint8Array, offset: number, word: number) => {
+  bytes[offset] = word >>> 24;
+  bytes[offset + 1] = word >>> 16;
+  bytes[offset + 2] = word >>> 8;
+  bytes[offset + 3] = word;
+};
+
+/** Encrypts single blocks with a 128, 192 or 256-bit key. */
+export class Aes {
+  private readonly roundKeys: Uint32Array;
+  private readonly rounds: number;
+
+  constructor(key: Uint8Array) {
+    if (![16, 24, 32].includes(key.length)) {
+      throw new Error(`Invalid AES key length ${key.length}`);
+    }
+    const keyWords = key.length / 4;
+    this.rounds = keyWords + 6;
+    this.roundKeys = new Uint32Array(4 * (this.rounds + 1));
+
+    let roundConstant = 1;
+    for (let i = 0; i < this.roundKeys.length; i++) {
+      if (i < keyWords) {
+        this.roundKeys[i] = readWord(key, i * 4);
+        continue;
+      }
+      let word = this.roundKeys[i - 1];
+      if (i % keyWords === 0) {
+        word = subWord(((word << 8) | (word >>> 24)) >>> 0) ^ (roundConstant << 24);
+        roundConstant = double(roundConstant);
+      } else if (keyWords > 6 && i % keyWords === 4) {
+        word = subWord(word);
+      }
+      this.roundKeys[i] = (this.roundKeys[i - keyWords] ^ word) >>> 0;
+    }
+  }
+
+  encryptBlock(input: Uint8Array, output: Uint8Array) {
+    const keys = this.roundKeys;
+    let s0 = readWord(input, 0) ^ keys[0];
+    let s1 = readWord(input, 4) ^ keys[1];
+    let s2 = readWord(input, 8) ^ keys[2];
+    let s3 = readWord(input, 12) ^ keys[3];
+
+    for (let round = 1; round < this.rounds; round++) {
+      const k = round * 4;
+      const t0 = T0[s0 >>> 24] ^ T1[(s1 >>> 16) & 0xff] ^ T2[(s2 >>> 8) & 0xff] ^ T3[s3 & 0xff] ^ keys[k];
+      const t1 = T0[s1 >>> 24] ^ T1[(s2 >>> 16) & 0xff] ^ T2[(s3 >>> 8) & 0xff] ^ T3[s0 & 0xff] ^ keys[k + 1];
+      const t2 = T0[s2 >>> 24] ^ T1[(s3 >>> 16) & 0xff] ^ T2[(s0 >>> 8) & 0xff] ^ T3[s1 & 0xff] ^ keys[k + 2];
+      const t3 = T0[s3 >>> 24] ^ T1[(s0 >>> 16) & 0xff] ^ T2[(s1 >>> 8) & 0xff] ^ T3[s2 & 0xff] ^ keys[k + 3];
+      s0 = t0;
+      s1 = t1;
+      s2 = t2;
+      s3 = t3;
+    }
+
+    const k = this.rounds * 4;
+    const lastRound = (a: number, b: number, c: number, d: number, key: number) =>
+      (((SBOX[a >>> 24] << 24) | (SBOX[(b >>> 16) & 0xff] << 16) | (SBOX[(c >>> 8) & 0xff] << 8) | SBOX[d & 0xff]) ^ key) >>> 0;
+    writeWord(output, 0, lastRound(s0, s1, s2, s3, keys[k]));
+    writeWord(output, 4, lastRound(s1, s2, s3, s0, keys[k + 1]));
+    writeWord(output, 8, lastRound(s2, s3, s0, s1, keys[k + 2]));
+    writeWord(output, 12, lastRound(s3, s0, s1, s2, keys[k + 3]));
+  }
+}
@@ -0,0 +1,26 @@
+export type ArchiveEntry = {
+  path: string;
+  isDirectory: boolean;
+  encrypted: boolean;
+  /** Bytes the entry takes up in the archive file, used for progress and compression-ratio checks. */
+  compressedSize: number;
+  uncompressedSize: number;
+  /** Checked after extraction when the format records one. */
+  crc32?: number;
+};
+
+/** What the importer needs from an archive, whatever its format. */
+export interface ArchiveReader<Entry extends ArchiveEntry = ArchiveEntry> {
+  readonly entries: Entry[];
+  extract(entry: Entry, type?: string): Promise<Blob>;
+  /** Streams an entry's contents, for reading it through without holding it whole. */
+  openEntry(entry: Entry): Promise<ReadableStream<Uint8Array>>;
+  readHead(entry: Entry, length: number): Promise<Uint8Array>;
+}
+
+export class ArchiveFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArchiveFormatError";
+  }
+}
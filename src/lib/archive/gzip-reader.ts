@@ -0,0 +1,57 @@
+import type { ArchiveEntry, ArchiveReader } from "@/lib/archive/archive-reader";
+import { limitStreamSize } from "@/lib/archive/streams";
+import { TarReader } from "@/lib/archive/tar-reader";
+
+/**
+ * Decompresses a whole gzip file into a `Blob`. gzip can't be read from the
+ * middle, so this is the only way to get at the entries of a `.tar.gz`;
+ * `maxBytes` stops a bomb before it fills memory.
+ */
+export const gunzip = (file: Blob, maxBytes: number): Promise<Blob> =>
+  new Response(
+    file
+      .stream()
+      .pipeThrough(new DecompressionStream("gzip"))
+      .pipeThrough(limitStreamSize(maxBytes, "Archive expands to more than the total size limit")),
+  ).blob();
+
+/** A gzipped file that isn't a tarball, presented as an archive holding just that file. */
+class SingleFileReader implements ArchiveReader {
+  readonly entries: ArchiveEntry[];
+
+  constructor(
+    private readonly data: Blob,
+    path: string,
+    compressedSize: number,
+  ) {
+    this.entries = [{ path, isDirectory: false, encrypted: false, compressedSize, uncompressedSize: data.size }];
+  }
+
+  async extract(entry: ArchiveEntry, type = ""): Promise<Blob> {
+    return this.data.slice(0, this.data.size, type);
+  }
+
+  async openEntry(entry: ArchiveEntry): Promise<ReadableStream<Uint8Array>> {
+    return this.data.stream();
+  }
+
+  async readHead(entry: ArchiveEntry, length: number): Promise<Uint8Array> {
+    return new Uint8Array(await this.data.slice(0, length).arrayBuffer());
+  }
+}
+
+/** Opens a `.tar.gz`/`.tgz`, or a single gzipped file such as `album.flac.gz`. */
+export async function openGzipArchive(file: File, maxBytes: number): Promise<ArchiveReader> {
+  const data = await gunzip(file, maxBytes);
+  if (!(await TarReader.isTarball(data))) {
+    return new SingleFileReader(data, file.name.replace(/\.gz$/i, ""), file.size);
+  }
+
+  const tar = await TarReader.open(data);
+  // Spread the gzip file's size over the entries so progress adds up to it
+  // and compression-ratio checks see the archive's overall ratio.
+  for (const entry of tar.entries) {
+    entry.compressedSize = Math.round((entry.uncompressedSize * file.size) / Math.max(data.size, 1));
+  }
+  return tar;
+}
@@ -0,0 +1,37 @@
+import type { ArchiveReader } from "@/lib/archive/archive-reader";
+import { openGzipArchive } from "@/lib/archive/gzip-reader";
+import { TarReader } from "@/lib/archive/tar-reader";
+import { ZipReader } from "@/lib/archive/zip-reader";
+
+type ArchiveKind = "zip" | "tar" | "gzip";
+
+/** Extensions and MIME types the file picker should offer. */
+export const ARCHIVE_ACCEPT = ".zip,.tar,.tgz,.gz,application/zip,application/x-tar,application/gzip";
+
+function archiveKind(file: File): ArchiveKind | null {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".zip") || file.type === "application/zip") return "zip";
+  if (name.endsWith(".tar") || file.type === "application/x-tar") return "tar";
+  if (name.endsWith(".tgz") || name.endsWith(".gz") || file.type === "application/gzip") return "gzip";
+  return null;
+}
+
+export const isArchiveFile = (file: File) => archiveKind(file) !== null;
+
+/**
+ * Opens a ZIP, TAR or gzipped archive. `maxBytes` bounds how far a gzip
+ * file may expand, since it has to be decompressed before anything in it
+ * can be listed.
+ */
+export async function openArchive(file: File, maxBytes: number): Promise<ArchiveReader> {
+  switch (archiveKind(file)) {
+    case "zip":
+      return ZipReader.open(file);
+    case "tar":
+      return TarReader.open(file);
+    case "gzip":
+      return openGzipArchive(file, maxBytes);
+    default:
+      throw new Error(`${file.name} is not a supported archive`);
+  }
+}
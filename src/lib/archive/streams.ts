@@ -0,0 +1,45 @@
+import { ArchiveFormatError } from "@/lib/archive/archive-reader";
+
+/** Passes a stream through unchanged, failing it once more than `maxBytes` have gone by. */
+export function limitStreamSize(maxBytes: number, message: string) {
+  let total = 0;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      total += chunk.length;
+      if (total > maxBytes) {
+        controller.error(new ArchiveFormatError(message));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+/** Reads up to `length` bytes from the start of a stream and cancels the rest. */
+export async function readStreamHead(stream: ReadableStream<Uint8Array>, length: number) {
+  const reader = stream.getReader();
+  const head = new Uint8Array(length);
+  let filled = 0;
+  try {
+    while (filled < length) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = value.subarray(0, length - filled);
+      head.set(chunk, filled);
+      filled += chunk.length;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return head.subarray(0, filled);
+}
+
+/** Hands each chunk of a stream to `onChunk` as it arrives. */
+export async function readStreamChunks(stream: ReadableStream<Uint8Array>, onChunk: (chunk: Uint8Array) => void) {
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onChunk(value);
+  }
+}
@@ -0,0 +1,155 @@
+import { ArchiveFormatError, type ArchiveEntry, type ArchiveReader } from "@/lib/archive/archive-reader";
+import { decodeText } from "@/lib/charset";
+
+const BLOCK_SIZE = 512;
+
+const TYPE_FILE = "0";
+const TYPE_FILE_OLD = "\0";
+const TYPE_CONTIGUOUS_FILE = "7";
+const TYPE_DIRECTORY = "5";
+const TYPE_PAX_HEADER = "x";
+const TYPE_PAX_GLOBAL_HEADER = "g";
+const TYPE_GNU_LONG_NAME = "L";
+
+export type TarEntry = ArchiveEntry & {
+  dataOffset: number;
+};
+
+export class TarFormatError extends ArchiveFormatError {
+  constructor(message: string) {
+    super(message);
+    this.name = "TarFormatError";
+  }
+}
+
+const readBlock = async (blob: Blob, offset: number) =>
+  new Uint8Array(await blob.slice(offset, offset + BLOCK_SIZE).arrayBuffer());
+
+const readString = (block: Uint8Array, offset: number, length: number) => {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decodeText(end === -1 ? field : field.subarray(0, end));
+};
+
+/** Numeric fields are octal text, or big-endian binary when the top bit is set (GNU). */
+function readNumber(block: Uint8Array, offset: number, length: number) {
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f;
+    for (let i = offset + 1; i < offset + length; i++) value = value * 256 + block[i];
+    return value;
+  }
+  const text = String.fromCharCode(...block.subarray(offset, offset + length)).replace(/[\0 ]+/g, "");
+  return text ? parseInt(text, 8) : 0;
+}
+
+const isChecksumValid = (block: Uint8Array) => {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // The checksum field itself counts as spaces.
+    sum += i >= 148 && i < 156 ? 0x20 : block[i];
+  }
+  return sum === readNumber(block, 148, 8);
+};
+
+/** Parses pax records of the form `<length> <key>=<value>\n`. */
+function parsePaxHeader(bytes: Uint8Array) {
+  const fields = new Map<string, string>();
+  let offset = 0;
+  while (offset < bytes.length) {
+    const space = bytes.indexOf(0x20, offset);
+    const length = parseInt(String.fromCharCode(...bytes.subarray(offset, space)), 10);
+    if (space === -1 || !(length > 0)) break;
+    const record = new TextDecoder().decode(bytes.subarray(space + 1, offset + length - 1));
+    const equals = record.indexOf("=");
+    if (equals !== -1) fields.set(record.slice(0, equals), record.slice(equals + 1));
+    offset += length;
+  }
+  return fields;
+}
+
+/**
+ * Reads ustar archives, including pax and GNU long names, straight from a
+ * `Blob`. Opening walks the headers; entry data is sliced out of the file
+ * only when it is requested. Links and device entries are left out.
+ */
+export class TarReader implements ArchiveReader<TarEntry> {
+  private constructor(
+    readonly file: Blob,
+    readonly entries: TarEntry[],
+  ) {}
+
+  /** Whether a file starts with a valid tar header, for telling a tarball from other gzipped files. */
+  static async isTarball(file: Blob): Promise<boolean> {
+    if (file.size < BLOCK_SIZE) return false;
+    const block = await readBlock(file, 0);
+    return !block.every(byte => byte === 0) && isChecksumValid(block);
+  }
+
+  static async open(file: Blob): Promise<TarReader> {
+    const entries: TarEntry[] = [];
+    let paxFields = new Map<string, string>();
+    let longName: string | undefined;
+    let offset = 0;
+
+    while (offset + BLOCK_SIZE <= file.size) {
+      const block = await readBlock(file, offset);
+      // The archive ends with zero-filled blocks.
+      if (block.every(byte => byte === 0)) break;
+      if (!isChecksumValid(block)) {
+        throw new TarFormatError(`Header checksum mismatch at offset ${offset}`);
+      }
+
+      const type = String.fromCharCode(block[156]);
+      const isMetadata = [TYPE_PAX_HEADER, TYPE_PAX_GLOBAL_HEADER, TYPE_GNU_LONG_NAME].includes(type);
+      const headerSize = readNumber(block, 124, 12);
+      const size = isMetadata ? headerSize : Number(paxFields.get("size") ?? headerSize);
+      const dataOffset = offset + BLOCK_SIZE;
+      offset = dataOffset + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+      if (dataOffset + size > file.size) {
+        throw new TarFormatError("Archive is truncated");
+      }
+
+      if (type === TYPE_PAX_HEADER || type === TYPE_GNU_LONG_NAME) {
+        const data = new Uint8Array(await file.slice(dataOffset, dataOffset + size).arrayBuffer());
+        if (type === TYPE_PAX_HEADER) paxFields = parsePaxHeader(data);
+        else longName = readString(data, 0, data.length);
+        continue;
+      }
+      if (type === TYPE_PAX_GLOBAL_HEADER) continue;
+
+      const magic = String.fromCharCode(...block.subarray(257, 262));
+      const prefix = magic === "ustar" ? readString(block, 345, 155) : "";
+      const name = readString(block, 0, 100);
+      const path = paxFields.get("path") ?? longName ?? (prefix ? `${prefix}/${name}` : name);
+      paxFields = new Map();
+      longName = undefined;
+
+      const isDirectory = type === TYPE_DIRECTORY;
+      if (!isDirectory && ![TYPE_FILE, TYPE_FILE_OLD, TYPE_CONTIGUOUS_FILE].includes(type)) continue;
+
+      entries.push({
+        path: path.replace(/^\.\//, "") + (isDirectory && !path.endsWith("/") ? "/" : ""),
+        isDirectory,
+        encrypted: false,
+        compressedSize: size,
+        uncompressedSize: size,
+        dataOffset,
+      });
+    }
+
+    return new TarReader(file, entries);
+  }
+
+  async extract(entry: TarEntry, type = ""): Promise<Blob> {
+    return this.file.slice(entry.dataOffset, entry.dataOffset + entry.uncompressedSize, type);
+  }
+
+  async openEntry(entry: TarEntry): Promise<ReadableStream<Uint8Array>> {
+    return this.file.slice(entry.dataOffset, entry.dataOffset + entry.uncompressedSize).stream();
+  }
+
+  async readHead(entry: TarEntry, length: number): Promise<Uint8Array> {
+    const end = entry.dataOffset + Math.min(length, entry.uncompressedSize);
+    return new Uint8Array(await this.file.slice(entry.dataOffset, end).arrayBuffer());
+  }
+}
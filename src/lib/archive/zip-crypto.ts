@@ -0,0 +1,129 @@
+import { Aes } from "@/lib/archive/aes";
+import { ArchiveFormatError } from "@/lib/archive/archive-reader";
+import { crc32Update } from "@/lib/archive/crc32";
+
+export const ZIPCRYPTO_HEADER_SIZE = 12;
+export const AES_AUTH_CODE_SIZE = 10;
+
+const AES_PASSWORD_VERIFIER_SIZE = 2;
+const AES_KEY_ITERATIONS = 1000;
+
+export class ZipPasswordError extends ArchiveFormatError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipPasswordError";
+  }
+}
+
+const encodePassword = (password: string) => new TextEncoder().encode(password);
+
+/** The three-key stream cipher from PKWARE's APPNOTE, section 6.1. */
+class ZipCryptoKeys {
+  private key0 = 0x12345678;
+  private key1 = 0x23456789;
+  private key2 = 0x34567890;
+
+  constructor(password: Uint8Array) {
+    password.forEach(byte => this.update(byte));
+  }
+
+  private update(byte: number) {
+    this.key0 = crc32Update(this.key0, byte);
+    this.key1 = (Math.imul(this.key1 + (this.key0 & 0xff), 134775813) + 1) >>> 0;
+    this.key2 = crc32Update(this.key2, this.key1 >>> 24);
+  }
+
+  decrypt(bytes: Uint8Array) {
+    for (let i = 0; i < bytes.length; i++) {
+      const temp = (this.key2 | 2) & 0xffff;
+      bytes[i] ^= (temp * (temp ^ 1)) >>> 8;
+      this.update(bytes[i]);
+    }
+    return bytes;
+  }
+}
+
+/**
+ * Checks a password against an entry's 12-byte ZipCrypto header and returns
+ * a stream that decrypts the data behind it, or null when the password is
+ * wrong. The check is a single byte, so a wrong password slips through one
+ * time in 256 and shows up later as a CRC mismatch.
+ */
+export function createZipCryptoDecryptor(password: string, header: Uint8Array, checkByte: number) {
+  const keys = new ZipCryptoKeys(encodePassword(password));
+  const decryptedHeader = keys.decrypt(header.slice());
+  if (decryptedHeader[ZIPCRYPTO_HEADER_SIZE - 1] !== checkByte) return null;
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(keys.decrypt(chunk.slice()));
+    },
+  });
+}
+
+/** Salt length for WinZip AES strength 1, 2 or 3 (AES-128, -192, -256). */
+export const aesSaltSize = (strength: number) => 4 * strength + 4;
+
+const aesKeySize = (strength: number) => 8 * strength + 8;
+
+/** WinZip runs AES in CTR mode with a little-endian counter that starts at 1. */
+function createAesCtrStream(aes: Aes) {
+  const counter = new Uint8Array(16);
+  const keystream = new Uint8Array(16);
+  let position = keystream.length;
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      const output = chunk.slice();
+      for (let i = 0; i < output.length; i++) {
+        if (position === keystream.length) {
+          for (let j = 0; j < counter.length; j++) {
+            counter[j]++;
+            if (counter[j] !== 0) break;
+          }
+          aes.encryptBlock(counter, keystream);
+          position = 0;
+        }
+        output[i] ^= keystream[position++];
+      }
+      controller.enqueue(output);
+    },
+  });
+}
+
+/**
+ * Derives the keys for a WinZip AES entry from the password and its salt.
+ * Returns null when the two-byte password verifier doesn't match; otherwise
+ * a decrypting stream and a check of the entry's HMAC-SHA1 authentication
+ * code, which needs the whole encrypted data.
+ */
+export async function createAesDecryptor(password: string, strength: number, header: Uint8Array) {
+  const saltSize = aesSaltSize(strength);
+  const keySize = aesKeySize(strength);
+  const salt = header.subarray(0, saltSize);
+  const verifier = header.subarray(saltSize, saltSize + AES_PASSWORD_VERIFIER_SIZE);
+
+  const baseKey = await crypto.subtle.importKey("raw", encodePassword(password), "PBKDF2", false, ["deriveBits"]);
+  const derived = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-1", salt, iterations: AES_KEY_ITERATIONS },
+    baseKey,
+    (2 * keySize + AES_PASSWORD_VERIFIER_SIZE) * 8,
+  ));
+  if (derived[2 * keySize] !== verifier[0] || derived[2 * keySize + 1] !== verifier[1]) return null;
+
+  const authKey = await crypto.subtle.importKey(
+    "raw",
+    derived.subarray(keySize, 2 * keySize),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"],
+  );
+
+  return {
+    stream: createAesCtrStream(new Aes(derived.subarray(0, keySize))),
+    async verify(encrypted: Blob, authCode: Uint8Array) {
+      const mac = new Uint8Array(await crypto.subtle.sign("HMAC", authKey, await encrypted.arrayBuffer()));
+      return authCode.every((byte, index) => mac[index] === byte);
+    },
+  };
+}
@@ -0,0 +1,193 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { crc32 } from "@/lib/archive/crc32";
+import { ZipPasswordError } from "@/lib/archive/zip-crypto";
+import { ZipFormatError, ZipReader } from "@/lib/archive/zip-reader";
+import { concatBytes } from "@/lib/metadata/bytes";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const readText = async (stream: ReadableStream<Uint8Array>) => new Response(stream).text();
+
+/** Little-endian fields, laid out one after another. */
+function fields(...values: [size: 1 | 2 | 4 | 8, value: number][]) {
+  const bytes = new Uint8Array(values.reduce((total, [size]) => total + size, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  for (const [size, value] of values) {
+    if (size === 1) view.setUint8(offset, value);
+    else if (size === 2) view.setUint16(offset, value, true);
+    else if (size === 4) view.setUint32(offset, value, true);
+    else view.setBigUint64(offset, BigInt(value), true);
+    offset += size;
+  }
+  return bytes;
+}
+
+/** Sets the uncompressed size that the central directory records for every entry. */
+function patchCentralSizes(zip: Uint8Array, size: number) {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  for (let offset = 0; offset + 4 <= zip.length; offset++) {
+    if (view.getUint32(offset, true) === 0x02014b50) view.setUint32(offset + 24, size, true);
+  }
+  return zip;
+}
+
+/** A one-entry stored archive whose sizes and offsets are all in Zip64 fields, with an archive comment. */
+function buildZip64(name: string, content: Uint8Array) {
+  const nameBytes = encode(name);
+  const crc = crc32(content);
+  const local = concatBytes([
+    fields([4, 0x04034b50], [2, 45], [2, 0x0800], [2, 0], [2, 0], [2, 0], [4, crc], [4, 0xffffffff], [4, 0xffffffff], [2, nameBytes.length], [2, 20]),
+    nameBytes,
+    fields([2, 0x0001], [2, 16], [8, content.length], [8, content.length]),
+    content,
+  ]);
+  const central = concatBytes([
+    fields(
+      [4, 0x02014b50], [2, 45], [2, 45], [2, 0x0800], [2, 0], [2, 0], [2, 0], [4, crc], [4, 0xffffffff], [4, 0xffffffff],
+      [2, nameBytes.length], [2, 28], [2, 0], [2, 0], [2, 0], [4, 0], [4, 0xffffffff],
+    ),
+    nameBytes,
+    fields([2, 0x0001], [2, 24], [8, content.length], [8, content.length], [8, 0]),
+  ]);
+  const zip64EocdOffset = local.length + central.length;
+  const comment = encode("made by hand");
+  return concatBytes([
+    local,
+    central,
+    fields([4, 0x06064b50], [8, 44], [2, 45], [2, 45], [4, 0], [4, 0], [8, 1], [8, 1], [8, central.length], [8, local.length]),
+    fields([4, 0x07064b50], [4, 0], [8, zip64EocdOffset], [4, 1]),
+    fields([4, 0x06054b50], [2, 0], [2, 0], [2, 0xffff], [2, 0xffff], [4, 0xffffffff], [4, 0xffffffff], [2, comment.length]),
+    comment,
+  ]);
+}
+
+const AES_SALT = new Uint8Array(16).fill(7);
+
+/**
+ * A one-entry archive encrypted the way WinZip does it: AE-2 with AES-256
+ * over a stored entry, keys from PBKDF2-HMAC-SHA1 and a little-endian CTR
+ * counter starting at 1, followed by a truncated HMAC-SHA1 of the ciphertext.
+ */
+async function buildAesZip(name: string, content: Uint8Array, password: string) {
+  const baseKey = await crypto.subtle.importKey("raw", encode(password), "PBKDF2", false, ["deriveBits"]);
+  const derived = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-1", salt: AES_SALT, iterations: 1000 },
+    baseKey,
+    (2 * 32 + 2) * 8,
+  ));
+  const aesKey = await crypto.subtle.importKey("raw", derived.slice(0, 32), "AES-CTR", false, ["encrypt"]);
+  const blocks: Uint8Array[] = [];
+  for (let offset = 0; offset < content.length; offset += 16) {
+    const counter = fields([8, offset / 16 + 1], [8, 0]);
+    const block = content.slice(offset, offset + 16);
+    blocks.push(new Uint8Array(await crypto.subtle.encrypt({ name: "AES-CTR", counter, length: 64 }, aesKey, block)));
+  }
+  const ciphertext = concatBytes(blocks);
+  const macKey = await crypto.subtle.importKey("raw", derived.slice(32, 64), { name: "HMAC", hash: "SHA-1" }, false, ["sign"]);
+  const mac = new Uint8Array(await crypto.subtle.sign("HMAC", macKey, ciphertext)).slice(0, 10);
+  const data = concatBytes([AES_SALT, derived.slice(64, 66), ciphertext, mac]);
+
+  const nameBytes = encode(name);
+  // AE-2, vendor "AE", AES-256, stored.
+  const extra = fields([2, 0x9901], [2, 7], [2, 2], [1, 0x41], [1, 0x45], [1, 3], [2, 0]);
+  const local = concatBytes([
+    fields([4, 0x04034b50], [2, 51], [2, 0x0801], [2, 99], [2, 0], [2, 0], [4, 0], [4, data.length], [4, content.length], [2, nameBytes.length], [2, extra.length]),
+    nameBytes,
+    extra,
+    data,
+  ]);
+  const central = concatBytes([
+    fields(
+      [4, 0x02014b50], [2, 51], [2, 51], [2, 0x0801], [2, 99], [2, 0], [2, 0], [4, 0], [4, data.length], [4, content.length],
+      [2, nameBytes.length], [2, extra.length], [2, 0], [2, 0], [2, 0], [4, 0], [4, 0],
+    ),
+    nameBytes,
+    extra,
+  ]);
+  return concatBytes([
+    local,
+    central,
+    fields([4, 0x06054b50], [2, 0], [2, 0], [2, 1], [2, 1], [4, central.length], [4, local.length], [2, 0]),
+  ]);
+}
+
+describe("ZipReader", () => {
+  const text = "The quick brown fox jumps over the lazy dog. ".repeat(40);
+
+  const buildZip = async (streamFiles: boolean) => {
+    const zip = new JSZip();
+    zip.file("Album/01 Stored.txt", "stored", { compression: "STORE" });
+    zip.file("Album/02 Déflated.txt", text, { compression: "DEFLATE" });
+    zip.folder("Album/Scans");
+    return zip.generateAsync({ type: "uint8array", streamFiles });
+  };
+
+  it.each([false, true])("lists and extracts stored and deflated entries (data descriptors: %s)", async streamFiles => {
+    const reader = await ZipReader.open(new Blob([await buildZip(streamFiles)]));
+    const [album, stored, deflated, scans] = reader.entries;
+
+    expect(reader.entries.map(entry => entry.path)).toEqual(["Album/", "Album/01 Stored.txt", "Album/02 Déflated.txt", "Album/Scans/"]);
+    expect([album, stored, scans].map(entry => entry.isDirectory)).toEqual([true, false, true]);
+    expect(deflated).toMatchObject({ method: 8, encrypted: false, uncompressedSize: text.length, crc32: crc32(encode(text)) });
+    expect(deflated.compressedSize).toBeLessThan(text.length);
+
+    expect(await (await reader.extract(stored)).text()).toBe("stored");
+    expect(await readText(await reader.openEntry(deflated))).toBe(text);
+    expect(new TextDecoder().decode(await reader.readHead(deflated, 9))).toBe("The quick");
+  });
+
+  it("fails an entry that inflates past the size the central directory declares", async () => {
+    const reader = await ZipReader.open(new Blob([patchCentralSizes(await buildZip(false), 100)]));
+    const deflated = reader.entries.find(entry => entry.method === 8);
+    await expect(readText(await reader.openEntry(deflated))).rejects.toThrow("larger than its declared size");
+  });
+
+  it("rejects files without an end of central directory record", async () => {
+    await expect(ZipReader.open(new Blob([new Uint8Array(100)]))).rejects.toThrow(ZipFormatError);
+  });
+
+  it("reads Zip64 sizes and offsets", async () => {
+    const content = encode("sixty-four bits");
+    const reader = await ZipReader.open(new Blob([buildZip64("big.bin", content)]));
+
+    expect(reader.entries).toHaveLength(1);
+    expect(reader.entries[0]).toMatchObject({
+      path: "big.bin",
+      compressedSize: content.length,
+      uncompressedSize: content.length,
+      localHeaderOffset: 0,
+      crc32: crc32(content),
+    });
+    expect(await (await reader.extract(reader.entries[0])).text()).toBe("sixty-four bits");
+  });
+
+  describe("WinZip AES", () => {
+    const content = encode("Forty bytes of secret, over three blocks");
+
+    it("checks the password against the verifier and decrypts the entry", async () => {
+      const reader = await ZipReader.open(new Blob([await buildAesZip("secret.txt", content, "hunter2")]));
+      const [entry] = reader.entries;
+
+      expect(entry).toMatchObject({ encrypted: true, aesStrength: 3, method: 0, crc32: undefined });
+      expect(await reader.checkPassword(entry, "hunter2")).toBe(true);
+      expect(await reader.checkPassword(entry, "wrong")).toBe(false);
+
+      await expect(reader.openEntry(entry)).rejects.toThrow(ZipPasswordError);
+      reader.setPassword("wrong");
+      await expect(reader.openEntry(entry)).rejects.toThrow(ZipPasswordError);
+      reader.setPassword("hunter2");
+      expect(await readText(await reader.openEntry(entry))).toBe("Forty bytes of secret, over three blocks");
+    });
+
+    it("fails an entry whose ciphertext doesn't match its authentication code", async () => {
+      const zip = await buildAesZip("secret.txt", content, "hunter2");
+      // The first ciphertext byte, after the local header, name, extra field, salt and verifier.
+      zip[30 + "secret.txt".length + 11 + 16 + 2] ^= 1;
+      const reader = await ZipReader.open(new Blob([zip]));
+      reader.setPassword("hunter2");
+
+      await expect(readText(await reader.openEntry(reader.entries[0]))).rejects.toThrow("failed its authentication check");
+    });
+  });
+});
@@ -0,0 +1,347 @@
+import { ArchiveFormatError, type ArchiveReader } from "@/lib/archive/archive-reader";
+import { limitStreamSize, readStreamHead } from "@/lib/archive/streams";
+import {
+  AES_AUTH_CODE_SIZE,
+  aesSaltSize,
+  createAesDecryptor,
+  createZipCryptoDecryptor,
+  ZIPCRYPTO_HEADER_SIZE,
+  ZipPasswordError,
+} from "@/lib/archive/zip-crypto";
+import { decodeCp437, decodeWithCharset, tryDecodeUtf8 } from "@/lib/charset";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const EOCD_SIZE = 22;
+const ZIP64_LOCATOR_SIZE = 20;
+const MAX_COMMENT_SIZE = 0xffff;
+const LOCAL_HEADER_SIZE = 30;
+
+const ZIP64_EXTRA_FIELD = 0x0001;
+const UNICODE_PATH_EXTRA_FIELD = 0x7075;
+const AES_EXTRA_FIELD = 0x9901;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_STRONG_ENCRYPTION = 0x0040;
+const FLAG_UTF8 = 0x0800;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const METHOD_AES = 99;
+
+// AE-2 entries leave the CRC out, relying on the authentication code instead.
+const AES_VENDOR_VERSION_AE2 = 2;
+
+export type ZipEntry = {
+  path: string;
+  isDirectory: boolean;
+  encrypted: boolean;
+  compressedSize: number;
+  uncompressedSize: number;
+  /** Compression method; for WinZip AES entries the one inside the encryption. */
+  method: number;
+  flags: number;
+  /** Absent for WinZip AE-2 entries, which don't record one. */
+  crc32?: number;
+  /** DOS modification time, which ZipCrypto uses as the password check when the CRC comes after the data. */
+  modTime: number;
+  /** WinZip AES key strength: 1, 2 or 3 for 128, 192 or 256 bits. */
+  aesStrength?: number;
+  localHeaderOffset: number;
+  /** The name's bytes when they are neither flagged nor valid UTF-8; `path` is then their CP437 reading. */
+  legacyName?: Uint8Array;
+};
+
+export class ZipFormatError extends ArchiveFormatError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipFormatError";
+  }
+}
+
+type EntryData = {
+  stream: ReadableStream<Uint8Array>;
+  /** Checks the whole entry once it has been read, where the format allows. */
+  verify?: () => Promise<boolean>;
+};
+
+const readSlice = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const readUint64 = (view: DataView, offset: number) =>
+  Number(view.getBigUint64(offset, true));
+
+/**
+ * Reads ZIP archives (including Zip64) straight from a `Blob`. Only the
+ * central directory is parsed up front; entry data is sliced out of the
+ * underlying file when it is actually requested. Encrypted entries are
+ * decrypted with the password given to `setPassword`.
+ */
+export class ZipReader implements ArchiveReader<ZipEntry> {
+  private password: string | null = null;
+
+  private constructor(
+    readonly file: Blob,
+    readonly entries: ZipEntry[],
+  ) {}
+
+  static async open(file: Blob): Promise<ZipReader> {
+    const tailStart = Math.max(0, file.size - EOCD_SIZE - MAX_COMMENT_SIZE);
+    const tail = await readSlice(file, tailStart, file.size);
+
+    let eocdOffset = -1;
+    for (let i = tail.byteLength - EOCD_SIZE; i >= 0; i--) {
+      if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+        eocdOffset = i;
+        break;
+      }
+    }
+    if (eocdOffset === -1) {
+      throw new ZipFormatError("End of central directory record not found");
+    }
+
+    let entryCount = tail.getUint16(eocdOffset + 10, true);
+    let directorySize = tail.getUint32(eocdOffset + 12, true);
+    let directoryOffset = tail.getUint32(eocdOffset + 16, true);
+
+    const locatorOffset = eocdOffset - ZIP64_LOCATOR_SIZE;
+    if (
+      locatorOffset >= 0 &&
+      tail.getUint32(locatorOffset, true) === ZIP64_EOCD_LOCATOR_SIGNATURE
+    ) {
+      const zip64EocdOffset = readUint64(tail, locatorOffset + 8);
+      const zip64Eocd = await readSlice(file, zip64EocdOffset, zip64EocdOffset + 56);
+      if (zip64Eocd.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+        throw new ZipFormatError("Zip64 end of central directory record is corrupt");
+      }
+      entryCount = readUint64(zip64Eocd, 32);
+      directorySize = readUint64(zip64Eocd, 40);
+      directoryOffset = readUint64(zip64Eocd, 48);
+    }
+
+    if (directoryOffset + directorySize > file.size) {
+      throw new ZipFormatError("Central directory lies outside the file");
+    }
+
+    const directory = await readSlice(file, directoryOffset, directoryOffset + directorySize);
+    return new ZipReader(file, parseCentralDirectory(directory, entryCount));
+  }
+
+  /**
+   * Streams the decompressed contents of an entry. The stream fails if the
+   * entry inflates past its declared size, so size limits checked against
+   * the central directory can't be dodged by lying in it, and WinZip AES
+   * entries fail at the end if they don't match their authentication code.
+   */
+  async openEntry(entry: ZipEntry): Promise<ReadableStream<Uint8Array>> {
+    const { stream, verify } = await this.openCompressedData(entry);
+    const decompressed = this.decompress(entry, stream);
+    if (!verify) return decompressed;
+    return decompressed.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      async flush() {
+        if (!(await verify())) throw new ZipFormatError(`${entry.path} failed its authentication check`);
+      },
+    }));
+  }
+
+  private decompress(entry: ZipEntry, compressed: ReadableStream<Uint8Array>) {
+    switch (entry.method) {
+      case METHOD_STORED:
+        return compressed;
+      case METHOD_DEFLATE:
+        return compressed
+          .pipeThrough(new DecompressionStream("deflate-raw"))
+          .pipeThrough(limitStreamSize(entry.uncompressedSize, `${entry.path} is larger than its declared size`));
+      default:
+        throw new ZipFormatError(`Unsupported compression method ${entry.method}`);
+    }
+  }
+
+  /**
+   * Extracts an entry into a `Blob`, avoiding a copy for stored entries.
+   * WinZip AES entries are checked against their authentication code.
+   */
+  async extract(entry: ZipEntry, type = ""): Promise<Blob> {
+    if (entry.method === METHOD_STORED && !entry.encrypted) {
+      const data = await this.getCompressedData(entry);
+      return new Blob([data], { type });
+    }
+    const data = await new Response(await this.openEntry(entry)).blob();
+    return new Blob([data], { type });
+  }
+
+  setPassword(password: string) {
+    this.password = password;
+  }
+
+  /** Reads the names that didn't say how they are encoded again, in the given charset. */
+  decodeNames(charset: string) {
+    for (const entry of this.entries) {
+      if (!entry.legacyName) continue;
+      entry.path = normalizePath(decodeWithCharset(entry.legacyName, charset));
+      entry.isDirectory = entry.path.endsWith("/");
+    }
+  }
+
+  /** Whether a password opens an encrypted entry, judged from the entry's encryption header alone. */
+  async checkPassword(entry: ZipEntry, password: string): Promise<boolean> {
+    const data = await this.getCompressedData(entry);
+    return (await this.createDecryptor(entry, data, password)) !== null;
+  }
+
+  /** Decompresses only as much of an entry as is needed for its first `length` bytes. */
+  async readHead(entry: ZipEntry, length: number): Promise<Uint8Array> {
+    return readStreamHead(await this.openEntry(entry), length);
+  }
+
+  private async openCompressedData(entry: ZipEntry): Promise<EntryData> {
+    const data = await this.getCompressedData(entry);
+    if (!entry.encrypted) return { stream: data.stream() };
+
+    if (this.password === null) {
+      throw new ZipPasswordError(`${entry.path} is encrypted`);
+    }
+    const decryptor = await this.createDecryptor(entry, data, this.password);
+    if (!decryptor) {
+      throw new ZipPasswordError(`Wrong password for ${entry.path}`);
+    }
+    return decryptor;
+  }
+
+  /** Checks the password against the entry's encryption header and sets up decryption of the rest. */
+  private async createDecryptor(entry: ZipEntry, data: Blob, password: string): Promise<EntryData | null> {
+    if (entry.flags & FLAG_STRONG_ENCRYPTION) {
+      throw new ZipFormatError(`${entry.path} uses unsupported strong encryption`);
+    }
+    const readBytes = async (start: number, end: number) => new Uint8Array(await data.slice(start, end).arrayBuffer());
+
+    if (entry.aesStrength === undefined) {
+      const checkByte = entry.flags & FLAG_DATA_DESCRIPTOR ? entry.modTime >>> 8 : entry.crc32 >>> 24;
+      const decryptor = createZipCryptoDecryptor(password, await readBytes(0, ZIPCRYPTO_HEADER_SIZE), checkByte);
+      return decryptor && { stream: data.slice(ZIPCRYPTO_HEADER_SIZE).stream().pipeThrough(decryptor) };
+    }
+
+    const headerSize = aesSaltSize(entry.aesStrength) + 2;
+    const decryptor = await createAesDecryptor(password, entry.aesStrength, await readBytes(0, headerSize));
+    if (!decryptor) return null;
+    const encrypted = data.slice(headerSize, data.size - AES_AUTH_CODE_SIZE);
+    return {
+      stream: encrypted.stream().pipeThrough(decryptor.stream),
+      verify: async () => decryptor.verify(encrypted, await readBytes(data.size - AES_AUTH_CODE_SIZE, data.size)),
+    };
+  }
+
+  private async getCompressedData(entry: ZipEntry): Promise<Blob> {
+    const header = await readSlice(
+      this.file,
+      entry.localHeaderOffset,
+      entry.localHeaderOffset + LOCAL_HEADER_SIZE,
+    );
+    if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError(`Local header for ${entry.path} is corrupt`);
+    }
+    const dataStart =
+      entry.localHeaderOffset +
+      LOCAL_HEADER_SIZE +
+      header.getUint16(26, true) +
+      header.getUint16(28, true);
+    return this.file.slice(dataStart, dataStart + entry.compressedSize);
+  }
+}
+
+// Some Windows archivers write backslash separators despite the spec, and
+// macOS writes names decomposed.
+const normalizePath = (path: string) => path.replace(/\\/g, "/").normalize("NFC");
+
+function parseCentralDirectory(view: DataView, entryCount: number): ZipEntry[] {
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError("Central directory is corrupt");
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    let method = view.getUint16(offset + 10, true);
+    const modTime = view.getUint16(offset + 12, true);
+    let crc32 = view.getUint32(offset + 16, true);
+    let aesStrength: number | undefined;
+    let compressedSize = view.getUint32(offset + 20, true);
+    let uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    let localHeaderOffset = view.getUint32(offset + 42, true);
+
+    const nameStart = offset + 46;
+    const nameBytes = new Uint8Array(view.buffer, view.byteOffset + nameStart, nameLength);
+    // Archivers frequently store UTF-8 names without setting the language
+    // encoding flag, so only fall back to CP437 when the bytes are not UTF-8.
+    const utf8Name = flags & FLAG_UTF8 ? new TextDecoder().decode(nameBytes) : tryDecodeUtf8(nameBytes);
+    let legacyName = utf8Name === null ? nameBytes.slice() : undefined;
+    let path = utf8Name ?? decodeCp437(nameBytes);
+
+    let extraOffset = nameStart + nameLength;
+    const extraEnd = extraOffset + extraLength;
+    while (extraOffset + 4 <= extraEnd) {
+      const id = view.getUint16(extraOffset, true);
+      const size = view.getUint16(extraOffset + 2, true);
+      let field = extraOffset + 4;
+
+      if (id === ZIP64_EXTRA_FIELD) {
+        if (uncompressedSize === 0xffffffff) {
+          uncompressedSize = readUint64(view, field);
+          field += 8;
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = readUint64(view, field);
+          field += 8;
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = readUint64(view, field);
+        }
+      } else if (id === UNICODE_PATH_EXTRA_FIELD && size > 5) {
+        const unicodeName = tryDecodeUtf8(
+          new Uint8Array(view.buffer, view.byteOffset + field + 5, size - 5),
+        );
+        if (unicodeName) {
+          path = unicodeName;
+          legacyName = undefined;
+        }
+      } else if (id === AES_EXTRA_FIELD && size >= 7 && method === METHOD_AES) {
+        if (view.getUint16(field, true) === AES_VENDOR_VERSION_AE2) crc32 = undefined;
+        aesStrength = view.getUint8(field + 4);
+        method = view.getUint16(field + 5, true);
+      }
+
+      extraOffset += 4 + size;
+    }
+
+    path = normalizePath(path);
+
+    entries.push({
+      path,
+      isDirectory: path.endsWith("/"),
+      encrypted: (flags & FLAG_ENCRYPTED) !== 0,
+      compressedSize,
+      uncompressedSize,
+      method,
+      flags,
+      crc32,
+      modTime,
+      aesStrength,
+      localHeaderOffset,
+      legacyName,
+    });
+
+    offset = extraEnd + commentLength;
+  }
+
+  return entries;
+}
@@ -0,0 +1,65 @@
+import { basename, dirname } from "@/lib/folder-tree";
+import type { Track } from "@/lib/types";
+
+// Most specific first: `cover.jpg` wins over `folder.jpg` in the same folder.
+const ARTWORK_NAMES = ["cover", "folder", "front"];
+
+const ARTWORK_MIME_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
+/** Front covers are rarely more than a few megabytes; anything bigger isn't worth holding in memory. */
+export const MAX_ARTWORK_BYTES = 20 * 1024 * 1024;
+
+const ARTWORK_PATTERN = new RegExp(
+  `^(${ARTWORK_NAMES.join("|")})\\.(${Object.keys(ARTWORK_MIME_TYPES).join("|")})$`,
+  "i",
+);
+
+/** Whether a file is a folder's cover image, e.g. `cover.jpg`, `Folder.png` or `front.webp`. */
+export const isArtworkPath = (path: string) => ARTWORK_PATTERN.test(basename(path));
+
+export const artworkMimeType = (path: string) =>
+  ARTWORK_MIME_TYPES[basename(path).split(".").pop().toLowerCase()] ?? "";
+
+/** Artwork for a playlist that has no cover of its own. */
+export const firstArtwork = (tracks: Track[]) => tracks.find(track => track.artwork)?.artwork;
+
+const artworkRank = (path: string) => ARTWORK_NAMES.indexOf(basename(path).split(".")[0].toLowerCase());
+
+/**
+ * The cover images found in an archive or dropped folder, by folder. A
+ * track without embedded art takes the image from its own folder or the
+ * nearest folder above it, so `Album/cover.jpg` also covers `Album/CD1/`.
+ */
+export class FolderArtwork {
+  private readonly byFolder = new Map<string, { path: string; blob: Blob }>();
+
+  add(path: string, blob: Blob) {
+    const folder = dirname(path);
+    const current = this.byFolder.get(folder);
+    if (!current || artworkRank(path) < artworkRank(current.path)) this.byFolder.set(folder, { path, blob });
+  }
+
+  forFolder(folderPath: string): Blob | undefined {
+    return this.byFolder.get(folderPath)?.blob;
+  }
+
+  /** The image nearest the top of the archive or folder, which most likely covers all of it. */
+  outermost(): Blob | undefined {
+    const folders = [...this.byFolder.keys()].sort((a, b) => a.split("/").length - b.split("/").length || a.length - b.length);
+    return folders.length > 0 ? this.forFolder(folders[0]) : undefined;
+  }
+
+  /** Artwork for a file, looking in its folder and then each one above it. */
+  find(path: string): Blob | undefined {
+    for (let folder = dirname(path); ; folder = dirname(folder)) {
+      const artwork = this.forFolder(folder);
+      if (artwork || !folder) return artwork;
+    }
+  }
+}
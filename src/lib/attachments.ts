@@ -0,0 +1,40 @@
+import { basename } from "@/lib/folder-tree";
+import type { Attachment, AttachmentKind } from "@/lib/types";
+
+type AttachmentType = {
+  kind: AttachmentKind;
+  mimeType: string;
+  /** How the import report describes the file. */
+  label: string;
+};
+
+const ATTACHMENT_TYPES: Record<string, AttachmentType> = {
+  pdf: { kind: "pdf", mimeType: "application/pdf", label: "Booklet" },
+  jpg: { kind: "image", mimeType: "image/jpeg", label: "Image" },
+  jpeg: { kind: "image", mimeType: "image/jpeg", label: "Image" },
+  png: { kind: "image", mimeType: "image/png", label: "Image" },
+  gif: { kind: "image", mimeType: "image/gif", label: "Image" },
+  webp: { kind: "image", mimeType: "image/webp", label: "Image" },
+  txt: { kind: "text", mimeType: "text/plain", label: "Notes" },
+  nfo: { kind: "text", mimeType: "text/plain", label: "Notes" },
+  md: { kind: "text", mimeType: "text/plain", label: "Notes" },
+};
+
+/** Booklets of a few hundred scanned pages can run to tens of megabytes. */
+export const MAX_ATTACHMENT_BYTES = 100 * 1024 * 1024;
+
+/** How a file would be kept as an attachment, or null when it isn't one. */
+export const attachmentType = (path: string): AttachmentType | null => {
+  const name = basename(path);
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? ATTACHMENT_TYPES[name.slice(dot + 1).toLowerCase()] ?? null : null;
+};
+
+export const sortAttachments = (attachments: Attachment[]) =>
+  [...attachments].sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true, sensitivity: "base" }));
+
+/** `.nfo` files are drawn in the DOS code page; everything else is UTF-8 or Windows-1252. */
+export const isNfoPath = (path: string) => /\.nfo$/i.test(path);
+
+/** For the file picker, next to the archive and audio types. */
+export const ATTACHMENT_ACCEPT = Object.keys(ATTACHMENT_TYPES).map(extension => `.${extension}`).join(",");
@@ -0,0 +1,123 @@
+export type AudioContainer = "mp3" | "aac" | "flac" | "ogg" | "wav" | "mp4" | "aiff" | "webm" | "matroska";
+
+export type AudioFormat = {
+  container: AudioContainer;
+  /** Codec inside the container, where the container alone doesn't say. */
+  codec?: string;
+  mimeType: string;
+  label: string;
+};
+
+/** Enough bytes to identify every container except an MP3 behind a large ID3 tag. */
+export const SNIFF_LENGTH = 4096;
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const format = (container: AudioContainer, mimeType: string, label: string, codec?: string): AudioFormat => ({
+  container,
+  codec,
+  mimeType,
+  label,
+});
+
+/** Size of an ID3v2 tag (header and footer included), or 0 when there is none. */
+export function id3TagSize(bytes: Uint8Array): number {
+  if (bytes.length < 10 || ascii(bytes, 0, 3) !== "ID3") return 0;
+  const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+  const hasFooter = (bytes[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+function sniffMpegFrame(bytes: Uint8Array, offset: number): AudioFormat | null {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+  const layer = (bytes[offset + 1] >> 1) & 0x03;
+  if (layer !== 0) return format("mp3", "audio/mpeg", "MPEG audio");
+  // Layer bits of 00 with the MPEG-4/MPEG-2 ID identify an ADTS AAC stream.
+  if ((bytes[offset + 1] & 0xf6) === 0xf0) return format("aac", "audio/aac", "AAC (ADTS)");
+  return null;
+}
+
+function sniffOggCodec(bytes: Uint8Array): AudioFormat {
+  // The first page holds exactly one packet; its header starts after the segment table.
+  const segments = bytes[26] ?? 0;
+  const packet = 27 + segments;
+  if (ascii(bytes, packet, 8) === "OpusHead") return format("ogg", 'audio/ogg; codecs="opus"', "Opus", "opus");
+  if (ascii(bytes, packet + 1, 6) === "vorbis") return format("ogg", 'audio/ogg; codecs="vorbis"', "Ogg Vorbis", "vorbis");
+  if (ascii(bytes, packet + 1, 4) === "FLAC") return format("ogg", 'audio/ogg; codecs="flac"', "Ogg FLAC", "flac");
+  return format("ogg", "audio/ogg", "Ogg");
+}
+
+function sniffEbml(bytes: Uint8Array): AudioFormat {
+  const header = ascii(bytes, 0, Math.min(bytes.length, 64));
+  if (header.includes("webm")) return format("webm", "audio/webm", "WebM");
+  return format("matroska", "audio/x-matroska", "Matroska");
+}
+
+/**
+ * Identifies an audio container from the first bytes of a file. `bytes`
+ * should start at the beginning of the file; when it opens with an ID3v2
+ * tag the caller must pass at least `id3TagSize(bytes) + 4` bytes for the
+ * frame behind the tag to be checked.
+ */
+export function sniffAudioFormat(bytes: Uint8Array): AudioFormat | null {
+  if (bytes.length < 12) return sniffMpegFrame(bytes, 0);
+
+  const tagSize = id3TagSize(bytes);
+  if (tagSize > 0) {
+    if (tagSize + 12 > bytes.length) return format("mp3", "audio/mpeg", "MPEG audio");
+    // ID3 tags are also glued onto AAC and FLAC streams.
+    return sniffAudioFormat(bytes.subarray(tagSize)) ?? format("mp3", "audio/mpeg", "MPEG audio");
+  }
+
+  const magic = ascii(bytes, 0, 4);
+  if (magic === "fLaC") return format("flac", "audio/flac", "FLAC");
+  if (magic === "OggS") return sniffOggCodec(bytes);
+  if (magic === "RIFF" && ascii(bytes, 8, 4) === "WAVE") return format("wav", "audio/wav", "WAV");
+  if (magic === "FORM" && ["AIFF", "AIFC"].includes(ascii(bytes, 8, 4))) return format("aiff", "audio/aiff", "AIFF");
+  if (ascii(bytes, 4, 4) === "ftyp") return format("mp4", "audio/mp4", "MPEG-4 audio");
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return sniffEbml(bytes);
+  return sniffMpegFrame(bytes, 0);
+}
+
+/** Every MIME type `sniffAudioFormat` can report. */
+export const AUDIO_MIME_TYPES = [
+  "audio/mpeg",
+  "audio/aac",
+  "audio/flac",
+  "audio/ogg",
+  'audio/ogg; codecs="opus"',
+  'audio/ogg; codecs="vorbis"',
+  'audio/ogg; codecs="flac"',
+  "audio/wav",
+  "audio/aiff",
+  "audio/mp4",
+  "audio/webm",
+  "audio/x-matroska",
+];
+
+const playableCache = new Map<string, boolean>();
+
+/**
+ * Workers can't create media elements, so the page asks its own `<audio>`
+ * and hands the answers over before a worker classifies anything.
+ */
+export function setPlayableMimeTypes(mimeTypes: string[]) {
+  for (const mimeType of AUDIO_MIME_TYPES) {
+    playableCache.set(mimeType, mimeTypes.includes(mimeType));
+  }
+}
+
+const canPlayMimeType = (mimeType: string) => {
+  let playable = playableCache.get(mimeType);
+  if (playable === undefined) {
+    playable = document.createElement("audio").canPlayType(mimeType) !== "";
+    playableCache.set(mimeType, playable);
+  }
+  return playable;
+};
+
+/** Asks the browser whether it can decode a format. */
+export const canPlayFormat = (audioFormat: AudioFormat) => canPlayMimeType(audioFormat.mimeType);
+
+export const listPlayableMimeTypes = () => AUDIO_MIME_TYPES.filter(canPlayMimeType);
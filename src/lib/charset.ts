@@ -0,0 +1,169 @@
+const CP437_HIGH =
+  "ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐" +
+  "└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0";
+
+const utf8Decoder = new TextDecoder("utf-8", { fatal: true });
+
+export function decodeCp437(bytes: Uint8Array): string {
+  let result = "";
+  for (const byte of bytes) {
+    result += byte < 0x80 ? String.fromCharCode(byte) : CP437_HIGH[byte - 0x80];
+  }
+  return result;
+}
+
+/** Decodes bytes as UTF-8, returning null when they are not valid UTF-8. */
+export function tryDecodeUtf8(bytes: Uint8Array): string | null {
+  try {
+    return utf8Decoder.decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/** Decodes a text file that may be UTF-8 or, failing that, Windows-1252. */
+export const decodeText = (bytes: Uint8Array) =>
+  (tryDecodeUtf8(bytes) ?? new TextDecoder("windows-1252").decode(bytes)).replace(/^\uFEFF/, "").normalize("NFC");
+
+/**
+ * Character sets that tags and archive names turn up in without saying so.
+ * CP437 is what ZIP assumes for names; Latin-1 is what ID3 assumes for tags.
+ */
+export const LEGACY_CHARSETS = [
+  { id: "cp437", label: "DOS (CP437)" },
+  { id: "windows-1252", label: "Western (Windows-1252)" },
+  { id: "windows-1250", label: "Central European (Windows-1250)" },
+  { id: "windows-1251", label: "Cyrillic (Windows-1251)" },
+  { id: "koi8-r", label: "Cyrillic (KOI8-R)" },
+  { id: "ibm866", label: "Cyrillic DOS (CP866)" },
+  { id: "windows-1253", label: "Greek (Windows-1253)" },
+  { id: "shift_jis", label: "Japanese (Shift-JIS)" },
+  { id: "gbk", label: "Simplified Chinese (GBK)" },
+  { id: "big5", label: "Traditional Chinese (Big5)" },
+  { id: "euc-kr", label: "Korean (EUC-KR)" },
+  { id: "euc-jp", label: "Japanese (EUC-JP)" },
+  { id: "utf-8", label: "Unicode (UTF-8)" },
+];
+
+/** Decodes bytes in one of `LEGACY_CHARSETS`, normalised to NFC so that names and tags compare equal however they were composed. */
+export const decodeWithCharset = (bytes: Uint8Array, charset: string) =>
+  (charset === "cp437" ? decodeCp437(bytes) : new TextDecoder(charset).decode(bytes)).normalize("NFC");
+
+const tryDecode = (bytes: Uint8Array, charset: string) => {
+  if (charset === "cp437") return decodeCp437(bytes);
+  try {
+    return new TextDecoder(charset, { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+};
+
+const hasHighBytes = (bytes: Uint8Array) => bytes.some(byte => byte >= 0x80);
+
+type Script = "latin" | "greek" | "cyrillic" | "cjk" | "hangul";
+
+type CharClass = { script?: Script; score: number };
+
+function classify(code: number): CharClass {
+  if (code >= 0xc0 && code <= 0x24f && code !== 0xd7 && code !== 0xf7) return { script: "latin", score: 1 };
+  if (code >= 0x370 && code <= 0x3ff) return { script: "greek", score: 1 };
+  if (code >= 0x400 && code <= 0x4ff) return { script: "cyrillic", score: 1 };
+  // These take two bytes each. Kana and hangul are the stronger evidence,
+  // as wrongly paired bytes mostly land among the ideographs.
+  if (code >= 0x3040 && code <= 0x30ff) return { script: "cjk", score: 3 };
+  if (code >= 0x4e00 && code <= 0x9fff) return { script: "cjk", score: 2 };
+  if (code >= 0xac00 && code <= 0xd7af) return { script: "hangul", score: 3 };
+  if ((code >= 0x3000 && code <= 0x303f) || (code >= 0xff01 && code <= 0xff5e)) return { script: "cjk", score: 2 };
+  // Latin-1 signs such as © and °, dashes, quotes, ellipses, € and ™.
+  if ((code >= 0xa0 && code <= 0xbf) || (code >= 0x2010 && code <= 0x2027) || code === 0x20ac || code === 0x2122) {
+    return { score: 0 };
+  }
+  // Box drawing, control codes, half-width katakana, private use and the like.
+  return { score: -3 };
+}
+
+const CASED_SCRIPTS: Script[] = ["latin", "greek", "cyrillic"];
+
+/**
+ * Rates how much a decoding reads like real text, word by word: letters
+ * of one script score, symbols cost, and so do words that mix scripts,
+ * Latin words made mostly of accented letters and words that switch to
+ * capitals halfway, which is what the wrong charset tends to produce.
+ */
+function scoreText(text: string) {
+  let total = 0;
+  for (const word of text.split(/[\s!-@[-`{-~]+/)) {
+    const asciiLetters = word.replace(/[^A-Za-z]/g, "").length;
+    const scripts = new Set<Script>();
+    let letters = 0;
+    let score = 0;
+    let caseShifts = 0;
+    let previousLower = false;
+    for (const char of word) {
+      const code = char.codePointAt(0);
+      const lower = char !== char.toUpperCase();
+      if (previousLower && char !== char.toLowerCase()) caseShifts++;
+      previousLower = lower;
+      if (code < 0x80) continue;
+      const { script, score: charScore } = classify(code);
+      score += charScore;
+      if (!script) continue;
+      scripts.add(script);
+      letters++;
+    }
+    if (scripts.size > 1) score -= 4 * letters;
+    else if (scripts.has("latin") && letters > 1 && letters > asciiLetters) score -= 2 * letters;
+    else if (scripts.size === 1 && !scripts.has("latin") && asciiLetters > 0) score -= 3 * letters;
+    if ([...scripts].some(script => CASED_SCRIPTS.includes(script))) score -= 2 * caseShifts;
+    total += score;
+  }
+  return total;
+}
+
+// GB2312 and KS X 1001, the common cores of GBK and EUC-KR, only use bytes
+// from 0xA1 up; anything below is an extension character seldom seen in
+// tags, and a sign that the bytes are really Shift-JIS.
+const CORE_FROM_A1 = ["gbk", "euc-kr"];
+
+function countExtensionCharacters(bytes: Uint8Array) {
+  let count = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] < 0x80) continue;
+    if (bytes[i] < 0xa1 || bytes[i + 1] < 0xa1) count++;
+    i++;
+  }
+  return count;
+}
+
+/**
+ * Guesses which charset text without a declared encoding is in, by
+ * decoding the samples every way and keeping the one that reads most like
+ * text. Returns `fallback` unless another charset reads better; ASCII
+ * alone can't tell them apart.
+ */
+export function guessCharset(samples: Uint8Array[], fallback: string): string {
+  const legacy = samples.filter(hasHighBytes);
+  if (legacy.length === 0) return fallback;
+  if (legacy.every(sample => tryDecodeUtf8(sample) !== null)) return "utf-8";
+
+  const candidates = [fallback, ...LEGACY_CHARSETS.map(({ id }) => id).filter(id => id !== fallback && id !== "utf-8")];
+  let best = fallback;
+  let bestScore = -Infinity;
+  for (const charset of candidates) {
+    let score = 0;
+    for (const sample of legacy) {
+      const text = tryDecode(sample, charset);
+      if (text === null) {
+        score = -Infinity;
+        break;
+      }
+      score += scoreText(text);
+      if (CORE_FROM_A1.includes(charset)) score -= 2 * countExtensionCharacters(sample);
+    }
+    if (score > bestScore) {
+      best = charset;
+      bestScore = score;
+    }
+  }
+  return best;
+}
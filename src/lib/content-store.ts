@@ -0,0 +1,40 @@
+import { createSourceId, type Track } from "@/lib/types";
+
+export type StoredSource = {
+  sourceId: string;
+  load: () => Promise<Blob>;
+};
+
+// One source per distinct file content, however many archives it came from,
+// so identical tracks share a single cached blob.
+const sourcesByHash = new Map<string, StoredSource>();
+const sourcesById = new Map<string, StoredSource>();
+
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** Returns the source already stored for this content, or stores `load` as a new one. */
+export function storeSource(hash: string, load: () => Promise<Blob>): StoredSource {
+  let source = sourcesByHash.get(hash);
+  if (!source) {
+    source = { sourceId: createSourceId(), load };
+    sourcesByHash.set(hash, source);
+    sourcesById.set(source.sourceId, source);
+  }
+  return source;
+}
+
+export function loadSource(sourceId: string): Promise<Blob> {
+  const source = sourcesById.get(sourceId);
+  if (!source) return Promise.reject(new Error(`Unknown source ${sourceId}`));
+  return source.load();
+}
+
+/**
+ * Identifies a track's audio. Tracks cut from one file by a CUE sheet share
+ * its hash, so their offset is part of the key.
+ */
+export const contentKey = (track: Track) =>
+  track.hash === undefined ? undefined : track.start === undefined ? track.hash : `${track.hash}@${track.start}`;
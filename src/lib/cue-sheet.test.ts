@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { applyCueSheet, parseCueSheet } from "@/lib/cue-sheet";
+import type { Track } from "@/lib/types";
+
+// Saved with a byte order mark, as Windows tools do.
+const SHEET = `\uFEFFREM GENRE Jazz
+REM REPLAYGAIN_ALBUM_GAIN -7.89 dB
+REM REPLAYGAIN_ALBUM_PEAK 0.988
+PERFORMER "The Band"
+TITLE "Live"
+FILE "Live Album.wav" WAVE
+  TRACK 01 AUDIO
+    TITLE "Opening"
+    INDEX 00 00:00:00
+    INDEX 01 00:00:32
+  TRACK 02 AUDIO
+    TITLE "Guest Spot"
+    PERFORMER "Guest"
+    REM REPLAYGAIN_TRACK_GAIN -6.50 dB
+    INDEX 01 03:15:45
+  TRACK 03 AUDIO
+    TITLE "No Index"
+FILE bonus.flac FLAC
+  TRACK 04 AUDIO
+    INDEX 01 00:00:00
+`;
+
+const track = (path: string, overrides: Partial<Track> = {}): Track => ({
+  id: path,
+  name: path,
+  path,
+  sourceId: `source-${path}`,
+  size: 1000,
+  format: { container: "flac", mimeType: "audio/flac", label: "FLAC" },
+  tags: { album: "Tagged album", genre: "Jazz" },
+  duration: 600,
+  load: () => Promise.resolve(new Blob()),
+  ...overrides,
+});
+
+describe("parseCueSheet", () => {
+  it("reads files, tracks, performers and ReplayGain remarks", () => {
+    const sheet = parseCueSheet(new TextEncoder().encode(SHEET));
+
+    expect(sheet.title).toBe("Live");
+    expect(sheet.performer).toBe("The Band");
+    expect(sheet.replayGain).toEqual({ albumGain: -7.89, albumPeak: 0.988 });
+    expect(sheet.files.map(file => file.name)).toEqual(["Live Album.wav", "bonus.flac"]);
+
+    const [opening, guest] = sheet.files[0].tracks;
+    expect(sheet.files[0].tracks).toHaveLength(2);
+    expect(opening).toMatchObject({ number: 1, title: "Opening", start: 32 / 75 });
+    expect(guest).toMatchObject({ number: 2, title: "Guest Spot", performer: "Guest", start: 195 + 45 / 75 });
+    expect(guest.replayGain).toEqual({ trackGain: -6.5 });
+    expect(sheet.files[1].tracks).toEqual([expect.objectContaining({ number: 4, start: 0 })]);
+  });
+
+  it("reads sheets saved in a legacy charset", () => {
+    const bytes = Uint8Array.from('TITLE "Caf\xe9"\n', char => char.charCodeAt(0));
+    expect(parseCueSheet(bytes).title).toBe("Café");
+  });
+});
+
+describe("applyCueSheet", () => {
+  it("splits the file the sheet names, even after transcoding, into tracks that play a slice of it", () => {
+    const sheet = parseCueSheet(new TextEncoder().encode(SHEET));
+    const album = track("Disc/Live Album.flac", { replayGain: { trackGain: -5 } });
+    const other = track("Disc/other.flac");
+
+    const tracks = applyCueSheet("Disc/live.cue", sheet, [album, other]);
+
+    expect(tracks.map(t => t.path)).toEqual(["Disc/Live Album.flac#01", "Disc/Live Album.flac#02", "Disc/other.flac"]);
+    const [opening, guest] = tracks;
+    expect(opening).toMatchObject({
+      name: "01. Opening",
+      sourceId: album.sourceId,
+      start: 32 / 75,
+      end: guest.start,
+      tags: { title: "Opening", artist: "The Band", album: "Live", genre: "Jazz", trackNumber: 1, trackTotal: 2 },
+      replayGain: { albumGain: -7.89, albumPeak: 0.988 },
+    });
+    expect(guest).toMatchObject({
+      name: "02. Guest - Guest Spot",
+      end: undefined,
+      duration: 600 - guest.start,
+      tags: { artist: "Guest" },
+      replayGain: { trackGain: -6.5, albumGain: -7.89 },
+    });
+    expect(opening.id).not.toBe(guest.id);
+  });
+
+  it("leaves tracks alone when the sheet's file isn't there", () => {
+    const sheet = parseCueSheet(new TextEncoder().encode(SHEET));
+    const tracks = [track("Elsewhere/Live Album.flac")];
+    expect(applyCueSheet("Disc/live.cue", sheet, tracks)).toBe(tracks);
+  });
+});
@@ -0,0 +1,161 @@
+import { decodeText } from "@/lib/charset";
+import { dirname } from "@/lib/folder-tree";
+import { parseReplayGain } from "@/lib/metadata/replay-gain-tags";
+import { createTrackId, type ReplayGain, type Track } from "@/lib/types";
+
+export type CueTrack = {
+  number: number;
+  title?: string;
+  performer?: string;
+  /** INDEX 01 position in seconds. */
+  start: number;
+  replayGain?: ReplayGain;
+};
+
+export type CueFile = {
+  name: string;
+  tracks: CueTrack[];
+};
+
+export type CueSheet = {
+  title?: string;
+  performer?: string;
+  files: CueFile[];
+  replayGain?: ReplayGain;
+};
+
+const CUE_FRAMES_PER_SECOND = 75;
+
+export const isCuePath = (path: string) => path.toLowerCase().endsWith(".cue");
+
+const unquote = (value: string) => /^\s*"([^"]*)"/.exec(value)?.[1] ?? value.trim();
+
+const parseCueTime = (value: string) => {
+  const [minutes, seconds, frames] = value.split(":").map(part => parseInt(part, 10));
+  return minutes * 60 + seconds + frames / CUE_FRAMES_PER_SECOND;
+};
+
+export function parseCueSheet(bytes: Uint8Array): CueSheet {
+  const sheet: CueSheet = { files: [] };
+  let file: CueFile | undefined;
+  let track: (Partial<CueTrack> & { number: number }) | undefined;
+  // Rippers such as EAC and foobar2000 put ReplayGain in remarks, e.g. `REM REPLAYGAIN_ALBUM_GAIN -7.89 dB`.
+  const sheetRemarks = new Map<string, string>();
+  const trackRemarks = new Map<string, string>();
+
+  const finishTrack = () => {
+    if (track) track.replayGain = parseReplayGain(name => trackRemarks.get(name));
+    trackRemarks.clear();
+    if (file && track?.start !== undefined) file.tracks.push(track as CueTrack);
+    track = undefined;
+  };
+
+  for (const rawLine of decodeText(bytes).split(/\r\n|\r|\n/)) {
+    const line = rawLine.trim();
+    const space = line.indexOf(" ");
+    if (space === -1) continue;
+    const command = line.slice(0, space).toUpperCase();
+    const args = line.slice(space + 1);
+
+    switch (command) {
+      case "FILE": {
+        finishTrack();
+        // The file name is quoted when it contains spaces and is followed by its type.
+        const name = args.trim().startsWith('"') ? unquote(args) : args.trim().replace(/\s+\S+$/, "");
+        file = { name, tracks: [] };
+        sheet.files.push(file);
+        break;
+      }
+      case "TRACK":
+        finishTrack();
+        track = { number: parseInt(args, 10) };
+        break;
+      case "TITLE":
+      case "PERFORMER": {
+        const key = command === "TITLE" ? "title" : "performer";
+        if (track) track[key] = unquote(args);
+        else sheet[key] = unquote(args);
+        break;
+      }
+      case "REM": {
+        const [name, value] = args.trim().split(/\s+/);
+        (track ? trackRemarks : sheetRemarks).set(name.toUpperCase(), value);
+        break;
+      }
+      case "INDEX": {
+        const [index, time] = args.trim().split(/\s+/);
+        if (track && parseInt(index, 10) === 1 && time) track.start = parseCueTime(time);
+        break;
+      }
+    }
+  }
+  finishTrack();
+  sheet.replayGain = parseReplayGain(name => sheetRemarks.get(name));
+
+  return sheet;
+}
+
+const stripExtension = (path: string) => path.replace(/\.[^./]+$/, "");
+
+/**
+ * Finds the track a CUE `FILE` line refers to. Rippers often leave the
+ * original extension in the sheet after transcoding (`album.wav` next to
+ * `album.flac`), so a match on the name alone is accepted too.
+ */
+function findCueSource(cuePath: string, fileName: string, tracks: Track[]) {
+  const path = [dirname(cuePath), fileName.replace(/\\/g, "/")].filter(Boolean).join("/").toLowerCase();
+  return (
+    tracks.find(track => track.path.toLowerCase() === path) ??
+    tracks.find(track => stripExtension(track.path.toLowerCase()) === stripExtension(path))
+  );
+}
+
+/**
+ * Replaces each single-file album described by a CUE sheet with virtual
+ * tracks that play a slice of the file. ReplayGain the file carries for
+ * itself covers the whole album, so it becomes the slices' album gain.
+ */
+export function applyCueSheet(cuePath: string, sheet: CueSheet, tracks: Track[]): Track[] {
+  let result = tracks;
+
+  for (const file of sheet.files) {
+    const source = findCueSource(cuePath, file.name, result);
+    if (!source || source.start !== undefined || file.tracks.length === 0) continue;
+
+    const virtualTracks = file.tracks.map((cueTrack, index): Track => {
+      const end = file.tracks[index + 1]?.start;
+      const performer = cueTrack.performer && cueTrack.performer !== sheet.performer ? `${cueTrack.performer} - ` : "";
+      const number = cueTrack.number.toString().padStart(2, "0");
+      return {
+        ...source,
+        id: createTrackId(),
+        name: `${number}. ${performer}${cueTrack.title ?? `Track ${cueTrack.number}`}`,
+        path: `${source.path}#${number}`,
+        start: cueTrack.start,
+        end,
+        duration: (end ?? source.duration) - cueTrack.start || undefined,
+        // Chapters count from the start of the whole file.
+        chapters: undefined,
+        replayGain: {
+          trackGain: cueTrack.replayGain?.trackGain,
+          trackPeak: cueTrack.replayGain?.trackPeak,
+          albumGain: sheet.replayGain?.albumGain ?? source.replayGain?.albumGain ?? source.replayGain?.trackGain,
+          albumPeak: sheet.replayGain?.albumPeak ?? source.replayGain?.albumPeak ?? source.replayGain?.trackPeak,
+        },
+        tags: {
+          ...source.tags,
+          title: cueTrack.title,
+          artist: cueTrack.performer ?? sheet.performer ?? source.tags.artist,
+          album: sheet.title ?? source.tags.album,
+          trackNumber: cueTrack.number,
+          trackTotal: file.tracks.length,
+        },
+      };
+    });
+
+    const sourceIndex = result.indexOf(source);
+    result = [...result.slice(0, sourceIndex), ...virtualTracks, ...result.slice(sourceIndex + 1)];
+  }
+
+  return result;
+}
@@ -0,0 +1,64 @@
+import { contentKey } from "@/lib/content-store";
+import type { Playlist, Track } from "@/lib/types";
+
+export type DuplicateChoice = "merge" | "skip" | "import";
+
+export type DuplicateSummary = {
+  playlist: Playlist;
+  duplicateCount: number;
+};
+
+const libraryKeys = (playlists: Playlist[]) =>
+  new Set(playlists.flatMap(playlist => playlist.tracks.map(contentKey)).filter(Boolean));
+
+const isDuplicate = (track: Track, keys: Set<string>) => {
+  const key = contentKey(track);
+  return key !== undefined && keys.has(key);
+};
+
+/** Incoming playlists that share tracks with the library, with how many they share. */
+export function findLibraryDuplicates(incoming: Playlist[], library: Playlist[]): DuplicateSummary[] {
+  const keys = libraryKeys(library);
+  return incoming
+    .map(playlist => ({ playlist, duplicateCount: playlist.tracks.filter(track => isDuplicate(track, keys)).length }))
+    .filter(summary => summary.duplicateCount > 0);
+}
+
+/**
+ * Adds incoming playlists to the library according to the user's choice:
+ * `merge` appends their new tracks to the playlist they overlap most,
+ * `skip` leaves out tracks already in the library, and `import` adds
+ * everything as it is.
+ */
+export function addWithDuplicateChoice(choice: DuplicateChoice, incoming: Playlist[], library: Playlist[]): Playlist[] {
+  if (choice === "import") return [...library, ...incoming];
+
+  const keys = libraryKeys(library);
+  const result = [...library];
+
+  for (const playlist of incoming) {
+    const newTracks = playlist.tracks.filter(track => !isDuplicate(track, keys));
+    const hasDuplicates = newTracks.length < playlist.tracks.length;
+
+    if (choice === "merge" && hasDuplicates) {
+      const playlistKeys = new Set(playlist.tracks.map(contentKey));
+      const overlap = (candidate: Playlist) => candidate.tracks.filter(track => playlistKeys.has(contentKey(track))).length;
+      const targetIndex = result.reduce((best, candidate, index) => (overlap(candidate) > overlap(result[best]) ? index : best), 0);
+      const target = result[targetIndex];
+      // Several playlists from one archive may merge into the same target.
+      const targetKeys = libraryKeys([target]);
+      const tracksToAdd = newTracks.filter(track => !isDuplicate(track, targetKeys));
+      const attachmentsToAdd = playlist.attachments.filter(attachment =>
+        !target.attachments.some(existing => existing.path === attachment.path));
+      result[targetIndex] = {
+        ...target,
+        tracks: [...target.tracks, ...tracksToAdd],
+        attachments: [...target.attachments, ...attachmentsToAdd],
+      };
+    } else if (newTracks.length > 0) {
+      result.push({ ...playlist, tracks: newTracks });
+    }
+  }
+
+  return result;
+}
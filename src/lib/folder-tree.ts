@@ -0,0 +1,63 @@
+import type { Track } from "@/lib/types";
+
+export type FolderListing = {
+  folders: { name: string; path: string; trackCount: number }[];
+  tracks: { track: Track; index: number }[];
+};
+
+export const basename = (path: string) => path.split("/").pop() || path;
+
+export const dirname = (path: string) => {
+  const slash = path.lastIndexOf("/");
+  return slash === -1 ? "" : path.slice(0, slash);
+};
+
+/** Splits a folder path into its ancestors, e.g. `a/b` gives `a` and `a/b`. */
+export const folderAncestors = (folderPath: string) =>
+  folderPath
+    ? folderPath.split("/").map((name, index, parts) => ({ name, path: parts.slice(0, index + 1).join("/") }))
+    : [];
+
+const isInFolder = (track: Track, folderPath: string) =>
+  !folderPath || track.path.startsWith(`${folderPath}/`);
+
+const comparePaths = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+/**
+ * Orders tracks folder by folder and, within a folder, by disc and track
+ * number. Untagged tracks follow the tagged ones in file name order.
+ */
+export const sortTracks = (tracks: Track[]) =>
+  [...tracks].sort((a, b) =>
+    comparePaths(dirname(a.path), dirname(b.path)) ||
+    (a.tags.discNumber ?? 0) - (b.tags.discNumber ?? 0) ||
+    (a.tags.trackNumber ?? Infinity) - (b.tags.trackNumber ?? Infinity) ||
+    comparePaths(a.path, b.path));
+
+/** Indexes of every track inside a folder, including its subfolders. */
+export const trackIndexesInFolder = (tracks: Track[], folderPath: string) =>
+  tracks.flatMap((track, index) => (isInFolder(track, folderPath) ? [index] : []));
+
+/** Lists the direct subfolders and tracks of one folder in a playlist. */
+export function listFolder(tracks: Track[], folderPath: string): FolderListing {
+  const prefix = folderPath ? `${folderPath}/` : "";
+  const folders = new Map<string, number>();
+  const listing: FolderListing = { folders: [], tracks: [] };
+
+  tracks.forEach((track, index) => {
+    if (!isInFolder(track, folderPath)) return;
+    const rest = track.path.slice(prefix.length);
+    const slash = rest.indexOf("/");
+    if (slash === -1) {
+      listing.tracks.push({ track, index });
+    } else {
+      const name = rest.slice(0, slash);
+      folders.set(name, (folders.get(name) ?? 0) + 1);
+    }
+  });
+
+  listing.folders = Array.from(folders, ([name, trackCount]) => ({ name, path: prefix + name, trackCount }))
+    .sort((a, b) => comparePaths(a.name, b.name));
+  return listing;
+}
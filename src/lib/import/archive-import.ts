@@ -0,0 +1,339 @@
+import { firstArtwork, FolderArtwork, isArtworkPath, MAX_ARTWORK_BYTES } from "@/lib/artwork";
+import { attachmentType, MAX_ATTACHMENT_BYTES, sortAttachments } from "@/lib/attachments";
+import type { ArchiveEntry, ArchiveReader } from "@/lib/archive/archive-reader";
+import { openArchive } from "@/lib/archive/open-archive";
+import { guessCharset } from "@/lib/charset";
+import { ZipPasswordError } from "@/lib/archive/zip-crypto";
+import { ZipReader } from "@/lib/archive/zip-reader";
+import { storeSource } from "@/lib/content-store";
+import { applyCueSheet, isCuePath, parseCueSheet } from "@/lib/cue-sheet";
+import { basename, sortTracks } from "@/lib/folder-tree";
+import { classifyAudio, scanAudio } from "@/lib/import/audio-files";
+import { checkArchiveLimits, checkEntryLimits, filterReason, type ImportLimits } from "@/lib/import/import-limits";
+import type { ImportProgressTracker } from "@/lib/import/import-progress";
+import { errorMessage, type ArchiveReport, type ImportReportEntry } from "@/lib/import/import-report";
+import { DEFAULT_TAG_CHARSET, readEmbeddedMetadata, readLegacyTagText } from "@/lib/metadata/embedded-metadata";
+import { isPlaylistPath, parsePlaylistFile, resolvePlaylistEntries } from "@/lib/playlist-files";
+import {
+  createPlaylist,
+  createPlaylistId,
+  createTrackId,
+  type Attachment,
+  type Playlist,
+  type Track,
+  type UnsupportedFile,
+} from "@/lib/types";
+
+/** Hears about each track as soon as it is ready, before the import finishes. */
+export type TrackListener = (playlistId: string, playlistName: string, track: Track) => void;
+
+/**
+ * Asks the user for an archive's password; `retry` is set when the last
+ * one was wrong. Resolves to null when they would rather skip the
+ * encrypted entries.
+ */
+export type PasswordRequest = (archiveName: string, retry: boolean) => Promise<string | null>;
+
+/**
+ * Asks the user which charset an archive's file names and tags are in,
+ * showing them `samples` of the undecoded text with `guess` preselected.
+ * Resolves to null when they would rather keep the default readings.
+ */
+export type CharsetRequest = (archiveName: string, samples: Uint8Array[], guess: string) => Promise<string | null>;
+
+export type ArchiveImportOptions = {
+  limits: ImportLimits;
+  signal?: AbortSignal;
+  onTrack?: TrackListener;
+  requestPassword?: PasswordRequest;
+  requestCharset?: CharsetRequest;
+};
+
+export type ArchiveImportResult = {
+  playlists: Playlist[];
+  report: ArchiveReport;
+};
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, "");
+
+// Entries of one archive can have different passwords, so a password only
+// has to open one of the first few encrypted entries to be accepted. Every
+// entry checks it again when it is read, and those it doesn't open are
+// reported as encrypted.
+const PASSWORD_CHECK_ENTRIES = 3;
+
+/** Prompts until the password opens some of the archive's encrypted entries. Returns false if the user gives up. */
+async function unlockArchive(zip: ZipReader, archiveName: string, requestPassword?: PasswordRequest) {
+  const encryptedEntries = zip.entries.filter(entry => entry.encrypted && !entry.isDirectory);
+  if (encryptedEntries.length === 0) return true;
+  if (!requestPassword) return false;
+
+  const sample = encryptedEntries.slice(0, PASSWORD_CHECK_ENTRIES);
+  for (let retry = false; ; retry = true) {
+    const password = await requestPassword(archiveName, retry);
+    if (password === null) return false;
+
+    const results = await Promise.all(sample.map(entry => zip.checkPassword(entry, password)));
+    if (results.some(Boolean)) {
+      zip.setPassword(password);
+      return true;
+    }
+  }
+}
+
+const MAX_CHARSET_SAMPLES = 50;
+
+/**
+ * Settles an archive's charset the first time its names or tags look like
+ * they aren't in the charset the format assumes, asking the user if they
+ * can be asked. One answer covers the whole archive, since one system
+ * wrote it. Resolves to undefined until then, and also once the user has
+ * kept the defaults: that only declines an override, so tags are still
+ * read in whatever charset each file's own text suggests.
+ */
+function charsetChooser(archiveName: string, requestCharset?: CharsetRequest) {
+  let charset: string | null | undefined;
+  return async (samples: Uint8Array[], fallback: string) => {
+    if (charset !== undefined) return charset ?? undefined;
+    const guess = guessCharset(samples, fallback);
+    if (guess === fallback) return undefined;
+    charset = requestCharset ? await requestCharset(archiveName, samples.slice(0, MAX_CHARSET_SAMPLES), guess) : guess;
+    return charset ?? undefined;
+  };
+}
+
+/**
+ * Extracts booklets, scans and notes up front, so that the cover images
+ * among them are ready for every track as it is found, wherever they sit
+ * in the archive. Returns the report entry for each attachment.
+ */
+async function readAttachments(archive: ArchiveReader, unlocked: boolean, limits: ImportLimits, signal?: AbortSignal) {
+  const artwork = new FolderArtwork();
+  const attachments: Attachment[] = [];
+  const reports = new Map<ArchiveEntry, ImportReportEntry>();
+  for (const entry of archive.entries) {
+    if (signal?.aborted) break;
+    const { path } = entry;
+    const type = attachmentType(path);
+    if (entry.isDirectory || !type || (entry.encrypted && !unlocked)) continue;
+    // Left for the main pass to report.
+    if (filterReason(path) ?? checkEntryLimits(entry.uncompressedSize, entry.compressedSize, limits)) continue;
+    if (entry.uncompressedSize > MAX_ATTACHMENT_BYTES) {
+      reports.set(entry, { path, outcome: "filtered", detail: "Attachment is too large" });
+      continue;
+    }
+    try {
+      const blob = await archive.extract(entry, type.mimeType);
+      attachments.push({ path, kind: type.kind, blob });
+      const isArtwork = isArtworkPath(path) && blob.size <= MAX_ARTWORK_BYTES;
+      if (isArtwork) artwork.add(path, blob);
+      reports.set(entry, { path, outcome: "imported", detail: isArtwork ? "Artwork" : type.label });
+    } catch (error) {
+      reports.set(entry, { path, outcome: error instanceof ZipPasswordError ? "encrypted" : "corrupt", detail: errorMessage(error) });
+    }
+  }
+  return { artwork, attachments: sortAttachments(attachments), reports };
+}
+
+const readEntryBytes = async (archive: ArchiveReader, entry: ArchiveEntry) =>
+  new Uint8Array(await (await archive.extract(entry)).arrayBuffer());
+
+/**
+ * Builds playlists from a ZIP, TAR or gzipped archive without holding any
+ * entry whole: entries are identified from their first few bytes, audio
+ * streams through once to be checked, hashed and sampled for its tags (see
+ * `scanAudio`), and each track reads its own entry out of the archive again
+ * when it is loaded. Content seen before shares the earlier
+ * track's source. CUE sheets split single-file albums into tracks, and
+ * every M3U/PLS/XSPF playlist in the archive becomes a playlist of its own,
+ * ahead of the playlist holding the whole archive. Every entry's fate is
+ * recorded in the returned report, and each track is passed to `onTrack` as
+ * it is found, under the id the archive's playlist will have. Tracks carry
+ * their embedded cover art, or else the nearest `cover.jpg` or similar;
+ * PDFs, images and text files are kept on the archive's playlist.
+ */
+export async function importArchive(
+  file: File,
+  progress: ImportProgressTracker,
+  { limits, signal, onTrack, requestPassword, requestCharset }: ArchiveImportOptions,
+): Promise<ArchiveImportResult> {
+  progress.startArchive(file.name);
+  const report: ArchiveReport = { name: file.name, entries: [] };
+  const record = (entry: ImportReportEntry) => report.entries.push(entry);
+
+  let archive: ArchiveReader;
+  try {
+    archive = await openArchive(file, limits.maxTotalBytes);
+  } catch (error) {
+    return { playlists: [], report: { ...report, error: errorMessage(error) } };
+  }
+
+  const limitError = checkArchiveLimits({
+    entryCount: archive.entries.length,
+    totalBytes: archive.entries.reduce((total, entry) => total + entry.uncompressedSize, 0),
+  }, limits);
+  if (limitError) {
+    return { playlists: [], report: { ...report, error: limitError } };
+  }
+
+  const chooseCharset = charsetChooser(file.name, requestCharset);
+  if (archive instanceof ZipReader) {
+    // Names have to be settled before anything is matched up by path.
+    const legacyNames = archive.entries.flatMap(entry => entry.legacyName ?? []);
+    const charset = await chooseCharset(legacyNames, "cp437");
+    if (charset) archive.decodeNames(charset);
+  }
+
+  let unlocked = true;
+  if (archive instanceof ZipReader) {
+    try {
+      unlocked = await unlockArchive(archive, file.name, requestPassword);
+    } catch (error) {
+      unlocked = false;
+      record({ path: file.name, outcome: "encrypted", detail: errorMessage(error) });
+    }
+  }
+
+  const extras = await readAttachments(archive, unlocked, limits, signal);
+  const playlistId = createPlaylistId();
+  let tracks: Track[] = [];
+  const unsupported: UnsupportedFile[] = [];
+  const playlistEntries: ArchiveEntry[] = [];
+  const cueEntries: ArchiveEntry[] = [];
+  const seenPaths = new Set<string>();
+  const pathsByHash = new Map<string, string>();
+
+  const importEntry = async (entry: ArchiveEntry) => {
+    if (entry.isDirectory) return;
+
+    const { path } = entry;
+    if (seenPaths.has(path)) {
+      record({ path, outcome: "duplicate", detail: "Another entry has the same path" });
+      return;
+    }
+    seenPaths.add(path);
+
+    const filtered = filterReason(path) ?? checkEntryLimits(entry.uncompressedSize, entry.compressedSize, limits);
+    if (filtered) {
+      record({ path, outcome: "filtered", detail: filtered });
+      return;
+    }
+    if (entry.encrypted && !unlocked) {
+      record({ path, outcome: "encrypted", detail: "No password given" });
+      return;
+    }
+    if (extras.reports.has(entry)) {
+      record(extras.reports.get(entry));
+      return;
+    }
+    if (isCuePath(path)) {
+      cueEntries.push(entry);
+      return;
+    }
+    if (isPlaylistPath(path)) {
+      playlistEntries.push(entry);
+      return;
+    }
+
+    try {
+      const audio = await classifyAudio(path, length => archive.readHead(entry, length));
+      if (audio.kind === "unsupported") {
+        unsupported.push({ path, reason: audio.reason });
+        record({ path, outcome: "unsupported", detail: audio.reason });
+      } else if (audio.kind === "audio") {
+        const { hash, crc32, sample } = await scanAudio(audio.format, () => archive.openEntry(entry));
+        if (entry.crc32 !== undefined && crc32 !== entry.crc32) {
+          record({ path, outcome: "corrupt", detail: "CRC-32 mismatch" });
+          return;
+        }
+
+        const firstPath = pathsByHash.get(hash);
+        if (firstPath) {
+          record({ path, outcome: "duplicate", detail: `Same content as ${firstPath}` });
+          return;
+        }
+        pathsByHash.set(hash, path);
+
+        const tagCharset = await chooseCharset(readLegacyTagText(sample), DEFAULT_TAG_CHARSET);
+        const metadata = readEmbeddedMetadata(audio.format, sample, tagCharset);
+        const source = storeSource(hash, () => archive.extract(entry, audio.format.mimeType));
+        const track: Track = {
+          id: createTrackId(),
+          name: basename(path),
+          path,
+          sourceId: source.sourceId,
+          hash,
+          size: entry.uncompressedSize,
+          format: audio.format,
+          tags: metadata.tags,
+          duration: metadata.duration,
+          chapters: metadata.chapters,
+          gapless: metadata.gapless,
+          replayGain: metadata.replayGain,
+          artwork: metadata.picture ?? extras.artwork.find(path),
+          load: source.load,
+        };
+        tracks.push(track);
+        onTrack?.(playlistId, file.name, track);
+        record({ path, outcome: "imported", detail: audio.format.label });
+      } else {
+        record({ path, outcome: "filtered", detail: "Not audio" });
+      }
+    } catch (error) {
+      // Entries of one archive can have different passwords.
+      record({ path, outcome: error instanceof ZipPasswordError ? "encrypted" : "corrupt", detail: errorMessage(error) });
+    }
+  };
+
+  for (const [index, entry] of archive.entries.entries()) {
+    if (signal?.aborted) break;
+    progress.update(entry.path, (index / archive.entries.length) * 100);
+    await importEntry(entry);
+    progress.addBytes(entry.compressedSize);
+  }
+
+  if (tracks.length === 0 && unsupported.length === 0) return { playlists: [], report };
+  const archivePlaylist = () => createPlaylist(file.name, sortTracks(tracks), {
+    id: playlistId,
+    unsupported,
+    attachments: extras.attachments,
+    artwork: extras.artwork.outermost() ?? firstArtwork(tracks),
+  });
+  // Whatever was found before a cancellation is kept as a plain playlist.
+  if (signal?.aborted) return { playlists: [archivePlaylist()], report };
+
+  // Paths of the files CUE sheets are about to split; their tracks keep the file's source.
+  const filePaths = new Map(tracks.map(track => [track.sourceId, track.path]));
+  for (const entry of cueEntries) {
+    try {
+      tracks = applyCueSheet(entry.path, parseCueSheet(await readEntryBytes(archive, entry)), tracks);
+      record({ path: entry.path, outcome: "imported", detail: "CUE sheet" });
+    } catch (error) {
+      record({ path: entry.path, outcome: "corrupt", detail: errorMessage(error) });
+    }
+  }
+
+  // A playlist entry naming a split file stands for all of its tracks.
+  const tracksByPath = new Map<string, Track[]>();
+  for (const track of tracks) {
+    const path = filePaths.get(track.sourceId) ?? track.path;
+    tracksByPath.set(path, [...(tracksByPath.get(path) ?? []), track]);
+  }
+  const bundledPlaylists: Playlist[] = [];
+  for (const entry of playlistEntries) {
+    try {
+      const playlistFile = parsePlaylistFile(entry.path, await readEntryBytes(archive, entry));
+      const { resolved: resolvedFiles, unresolved } = resolvePlaylistEntries(entry.path, playlistFile.entries, tracksByPath);
+      const resolved = resolvedFiles.flat();
+      record({ path: entry.path, outcome: "imported", detail: `Playlist, ${unresolved.length} missing entries` });
+      if (resolved.length === 0 && unresolved.length === 0) continue;
+
+      const name = `${file.name} / ${playlistFile.title || stripExtension(basename(entry.path))}`;
+      bundledPlaylists.push(createPlaylist(name, resolved, { missing: unresolved, artwork: firstArtwork(resolved) }));
+    } catch (error) {
+      record({ path: entry.path, outcome: "corrupt", detail: errorMessage(error) });
+    }
+  }
+
+  return { playlists: [...bundledPlaylists, archivePlaylist()], report };
+}
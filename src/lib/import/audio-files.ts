@@ -0,0 +1,86 @@
+import { crc32 } from "@/lib/archive/crc32";
+import { readStreamChunks } from "@/lib/archive/streams";
+import { canPlayFormat, id3TagSize, SNIFF_LENGTH, sniffAudioFormat, type AudioFormat } from "@/lib/audio-format";
+import { MetadataSampler, type MetadataSample } from "@/lib/metadata/metadata-sample";
+import { Sha256 } from "@/lib/sha256";
+
+// Used only to decide whether an unrecognised file is worth reporting.
+const AUDIO_EXTENSIONS = [
+  ".mp3", ".mp2", ".wav", ".ogg", ".oga", ".opus", ".m4a", ".m4b", ".mp4", ".aac", ".flac",
+  ".aif", ".aiff", ".aifc", ".webm", ".mka", ".wma", ".ape", ".wv", ".alac", ".dsf", ".dff",
+];
+
+// Never sniffed: these are obviously not audio.
+const NON_AUDIO_EXTENSIONS = [
+  ".jpg", ".jpeg", ".png", ".gif", ".bmp", ".webp", ".pdf", ".txt", ".nfo", ".log", ".cue",
+  ".m3u", ".m3u8", ".pls", ".xspf", ".md5", ".sfv", ".ffp", ".accurip", ".html", ".url",
+];
+
+// ID3 tags carrying large artwork can push the first audio frame a long way in.
+const MAX_ID3_SNIFF_LENGTH = 16 * 1024 * 1024;
+
+const hasExtension = (path: string, extensions: string[]) =>
+  extensions.some(ext => path.toLowerCase().endsWith(ext));
+
+export const isAudioPath = (path: string) => hasExtension(path, AUDIO_EXTENSIONS);
+
+export type AudioClassification =
+  | { kind: "audio"; format: AudioFormat }
+  | { kind: "unsupported"; reason: string }
+  | { kind: "other" };
+
+/**
+ * Decides from a file's contents whether it is audio the browser can play.
+ * `readHead` returns (at most) the first `length` bytes of the file.
+ */
+export async function classifyAudio(
+  path: string,
+  readHead: (length: number) => Promise<Uint8Array>,
+): Promise<AudioClassification> {
+  if (hasExtension(path, NON_AUDIO_EXTENSIONS)) return { kind: "other" };
+
+  let head = await readHead(SNIFF_LENGTH);
+  const tagSize = id3TagSize(head);
+  if (tagSize + 16 > head.length && head.length === SNIFF_LENGTH && tagSize <= MAX_ID3_SNIFF_LENGTH) {
+    head = await readHead(tagSize + 16);
+  }
+
+  const format = sniffAudioFormat(head);
+  if (!format) {
+    return isAudioPath(path) ? { kind: "unsupported", reason: "Unrecognised audio format" } : { kind: "other" };
+  }
+  if (!canPlayFormat(format)) {
+    return { kind: "unsupported", reason: `${format.label} is not supported by this browser` };
+  }
+  return { kind: "audio", format };
+}
+
+export const readFileHead = (file: Blob) => async (length: number) =>
+  new Uint8Array(await file.slice(0, length).arrayBuffer());
+
+export type AudioScan = {
+  /** SHA-256 of the whole file, as hex. */
+  hash: string;
+  /** For checking an archive entry against the CRC-32 its archive recorded. */
+  crc32: number;
+  /** What the file's tags and headers are read from. */
+  sample: MetadataSample;
+};
+
+/**
+ * Reads an audio file through once, hashing it and keeping only the parts
+ * its metadata is read from, so that no file is ever held whole. `open` is
+ * called again in the rare case that the sample needs a second pass.
+ */
+export async function scanAudio(format: AudioFormat, open: () => Promise<ReadableStream<Uint8Array>>): Promise<AudioScan> {
+  const sha256 = new Sha256();
+  const sampler = new MetadataSampler(format);
+  let crc = 0;
+  await readStreamChunks(await open(), chunk => {
+    sha256.update(chunk);
+    crc = crc32(chunk, crc);
+    sampler.push(chunk);
+  });
+  if (sampler.rewind()) await readStreamChunks(await open(), chunk => sampler.push(chunk));
+  return { hash: sha256.hex(), crc32: crc, sample: sampler.finish() };
+}
@@ -0,0 +1,115 @@
+/** Where a download's bytes go as they arrive, so a large archive never has to fit in memory. */
+export type DownloadStore = {
+  append(chunk: Uint8Array): Promise<void>;
+  /**
+   * Saves everything appended so far, as before retrying a dropped
+   * connection, and returns how many bytes are saved: the offset the
+   * download resumes from.
+   */
+  flush(): Promise<number>;
+  /** Throws away what was saved, when the server sends the whole file again. */
+  clear(): Promise<void>;
+  /** Returns the finished download as a file read back from the store. */
+  finish(fileName: string, type: string): Promise<File>;
+  /** Deletes a download that failed or was cancelled. */
+  discard(): Promise<void>;
+};
+
+const DOWNLOADS_DIRECTORY = "downloads";
+
+let staleDownloadsRemoved: Promise<void> | undefined;
+
+async function openDownloadsDirectory() {
+  const root = await navigator.storage.getDirectory();
+  // Tracks only read a download during the session that fetched it, so
+  // whatever an earlier session left behind can go.
+  staleDownloadsRemoved ??= root.removeEntry(DOWNLOADS_DIRECTORY, { recursive: true }).catch(() => {});
+  await staleDownloadsRemoved;
+  return root.getDirectoryHandle(DOWNLOADS_DIRECTORY, { create: true });
+}
+
+/** Writes the download to a file in the origin private file system. */
+async function createFileStore(): Promise<DownloadStore> {
+  const directory = await openDownloadsDirectory();
+  const name = crypto.randomUUID();
+  const handle = await directory.getFileHandle(name, { create: true });
+  let writable = await handle.createWritable();
+
+  return {
+    append: chunk => writable.write(chunk),
+    async flush() {
+      // Writes only reach the file when the stream closes; if closing
+      // fails, the file keeps what the last successful close saved.
+      await writable.close().catch(() => {});
+      const { size } = await handle.getFile();
+      writable = await handle.createWritable({ keepExistingData: true });
+      await writable.seek(size);
+      return size;
+    },
+    clear: () => writable.truncate(0),
+    async finish(fileName, type) {
+      await writable.close();
+      return new File([await handle.getFile()], fileName, { type });
+    },
+    async discard() {
+      await writable.abort().catch(() => {});
+      await directory.removeEntry(name).catch(() => {});
+    },
+  };
+}
+
+// Browsers move large blobs out to disk, so folding the received chunks
+// into one every few megabytes keeps them out of the page's memory.
+const BLOB_FLUSH_BYTES = 4 * 1024 * 1024;
+
+/** Collects the download in a blob, where the file system isn't available. */
+function createBlobStore(): DownloadStore {
+  let blob = new Blob();
+  let pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+
+  const flushPending = () => {
+    blob = new Blob([blob, ...pending]);
+    pending = [];
+    pendingBytes = 0;
+  };
+
+  return {
+    async append(chunk) {
+      pending.push(chunk);
+      pendingBytes += chunk.length;
+      if (pendingBytes >= BLOB_FLUSH_BYTES) flushPending();
+    },
+    async flush() {
+      flushPending();
+      return blob.size;
+    },
+    async clear() {
+      blob = new Blob();
+      pending = [];
+      pendingBytes = 0;
+    },
+    async finish(fileName, type) {
+      flushPending();
+      return new File([blob], fileName, { type });
+    },
+    async discard() {
+      blob = new Blob();
+      pending = [];
+      pendingBytes = 0;
+    },
+  };
+}
+
+/**
+ * Opens a store for one download: a file in the origin private file system
+ * where the browser allows it (not in insecure contexts, private windows in
+ * some browsers, or Safari before writable file streams), otherwise a blob.
+ */
+export async function createDownloadStore(): Promise<DownloadStore> {
+  try {
+    return await createFileStore();
+  } catch {
+    return createBlobStore();
+  }
+}
@@ -0,0 +1,51 @@
+/** A file handed to the importer, with its path relative to whatever was dropped. */
+export type SourceFile = {
+  file: File;
+  path: string;
+};
+
+const readFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+const readDirectoryBatch = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+async function walkEntry(entry: FileSystemEntry, parentPath: string, files: SourceFile[]) {
+  const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+
+  if (entry.isFile) {
+    files.push({ file: await readFile(entry as FileSystemFileEntry), path });
+    return;
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries hands back directory contents in batches until it returns none.
+    for (let batch = await readDirectoryBatch(reader); batch.length > 0; batch = await readDirectoryBatch(reader)) {
+      for (const child of batch) {
+        await walkEntry(child, path, files);
+      }
+    }
+  }
+}
+
+/** Collects every file in a drop, descending into dropped directories. */
+export async function collectDataTransferFiles(dataTransfer: DataTransfer): Promise<SourceFile[]> {
+  // Entries must be taken synchronously; the DataTransfer is emptied once the event returns.
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === "file")
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return collectFileList(dataTransfer.files);
+  }
+
+  const files: SourceFile[] = [];
+  for (const entry of entries) {
+    await walkEntry(entry, "", files);
+  }
+  return files;
+}
+
+export const collectFileList = (fileList: FileList): SourceFile[] =>
+  Array.from(fileList).map(file => ({ file, path: file.webkitRelativePath || file.name }));
@@ -0,0 +1,214 @@
+import { isArchiveFile } from "@/lib/archive/open-archive";
+import { firstArtwork, FolderArtwork, isArtworkPath, MAX_ARTWORK_BYTES } from "@/lib/artwork";
+import { attachmentType, MAX_ATTACHMENT_BYTES, sortAttachments } from "@/lib/attachments";
+import { storeSource } from "@/lib/content-store";
+import { applyCueSheet, isCuePath, parseCueSheet } from "@/lib/cue-sheet";
+import { sortTracks } from "@/lib/folder-tree";
+import { importArchive, type CharsetRequest, type PasswordRequest, type TrackListener } from "@/lib/import/archive-import";
+import { classifyAudio, readFileHead, scanAudio, type AudioClassification, type AudioScan } from "@/lib/import/audio-files";
+import type { SourceFile } from "@/lib/import/dropped-files";
+import { DEFAULT_IMPORT_LIMITS, filterReason, type ImportLimits } from "@/lib/import/import-limits";
+import { ImportProgressTracker, type ImportProgress } from "@/lib/import/import-progress";
+import { errorMessage, type ArchiveReport, type ImportReport } from "@/lib/import/import-report";
+import { readEmbeddedMetadata } from "@/lib/metadata/embedded-metadata";
+import {
+  createPlaylist,
+  createPlaylistId,
+  createTrackId,
+  type Attachment,
+  type Playlist,
+  type Track,
+  type UnsupportedFile,
+} from "@/lib/types";
+
+const LOOSE_FILES_PLAYLIST = "Loose tracks";
+const LOOSE_FILES_ARCHIVE = "Dropped files";
+
+/** Splits a dropped path into the playlist it belongs to and its path within it. */
+const splitSourcePath = (path: string) => {
+  const slash = path.indexOf("/");
+  return slash === -1
+    ? { folderName: LOOSE_FILES_PLAYLIST, relativePath: path }
+    : { folderName: path.slice(0, slash), relativePath: path.slice(slash + 1) };
+};
+
+export type ImportOptions = {
+  signal?: AbortSignal;
+  limits?: ImportLimits;
+  onUpdate?: (progress: ImportProgress) => void;
+  onTrack?: TrackListener;
+  requestPassword?: PasswordRequest;
+  requestCharset?: CharsetRequest;
+};
+
+export type ImportResult = {
+  playlists: Playlist[];
+  /** Set when the import was cancelled; `playlists` then holds what was found up to that point. */
+  aborted: boolean;
+  report: ImportReport;
+};
+
+/**
+ * Turns a mixed bag of files into playlists: one per archive, one per
+ * top-level dropped folder, and one for any loose audio files. CUE sheets
+ * dropped alongside their audio split it into tracks, and booklets, scans
+ * and notes are kept on the playlist they were dropped with. Loose files are
+ * reported together as if they were one more archive. Runs inside the
+ * import worker; see `import-worker-client.ts` for the page's side.
+ */
+export async function importFiles(
+  sources: SourceFile[],
+  { signal, onUpdate, onTrack, requestPassword, requestCharset, limits = DEFAULT_IMPORT_LIMITS }: ImportOptions = {},
+): Promise<ImportResult> {
+  const playlists: Playlist[] = [];
+  const folders = new Map<string, { id: string; tracks: Track[]; unsupported: UnsupportedFile[]; attachments: Attachment[] }>();
+  const folderArtwork = new FolderArtwork();
+  const cueSheets: SourceFile[] = [];
+  const report: ImportReport = { archives: [] };
+  const looseReport: ArchiveReport = { name: LOOSE_FILES_ARCHIVE, entries: [] };
+
+  const archives = sources.filter(({ file }) => isArchiveFile(file));
+  const looseFiles = sources.filter(({ file }) => !isArchiveFile(file));
+  const progress = new ImportProgressTracker(
+    sources.reduce((total, { file }) => total + file.size, 0),
+    archives.length + (looseFiles.length > 0 ? 1 : 0),
+    onUpdate,
+  );
+
+  for (const { file } of archives) {
+    if (signal?.aborted) break;
+    const result = await importArchive(file, progress, { limits, signal, onTrack, requestPassword, requestCharset });
+    // A cancelled archive was only read up to the entry it stopped at.
+    if (!signal?.aborted) progress.finishArchive(file.size);
+    playlists.push(...result.playlists);
+    report.archives.push(result.report);
+  }
+
+  if (looseFiles.length > 0 && !signal?.aborted) {
+    progress.startArchive(LOOSE_FILES_ARCHIVE);
+  }
+  // Attachments are picked out first so that cover images are ready for the tracks beside them.
+  const attachmentFiles = new Map(looseFiles.flatMap(({ file, path }) => {
+    const type = attachmentType(path);
+    if (!type || filterReason(path) || file.size > MAX_ATTACHMENT_BYTES) return [];
+    const typedFile = file.type ? file : new File([file], file.name, { type: type.mimeType });
+    return [[path, { file: typedFile, type }] as const];
+  }));
+  attachmentFiles.forEach(({ file }, path) => {
+    if (isArtworkPath(path) && file.size <= MAX_ARTWORK_BYTES) folderArtwork.add(path, file);
+  });
+  const importLooseFile = async ({ file, path }: SourceFile) => {
+    const filtered = filterReason(path);
+    if (filtered) {
+      looseReport.entries.push({ path, outcome: "filtered", detail: filtered });
+      return;
+    }
+    if (isCuePath(path)) {
+      cueSheets.push({ file, path });
+      return;
+    }
+    if (attachmentFiles.has(path)) return;
+
+    let audio: AudioClassification;
+    try {
+      audio = await classifyAudio(path, readFileHead(file));
+    } catch (error) {
+      looseReport.entries.push({ path, outcome: "corrupt", detail: errorMessage(error) });
+      return;
+    }
+    if (audio.kind === "other") {
+      looseReport.entries.push({ path, outcome: "filtered", detail: "Not audio" });
+      return;
+    }
+
+    const { folderName, relativePath } = splitSourcePath(path);
+    if (!folders.has(folderName)) {
+      folders.set(folderName, { id: createPlaylistId(), tracks: [], unsupported: [], attachments: [] });
+    }
+    const folder = folders.get(folderName);
+
+    if (audio.kind === "unsupported") {
+      folder.unsupported.push({ path: relativePath, reason: audio.reason });
+      looseReport.entries.push({ path, outcome: "unsupported", detail: audio.reason });
+      return;
+    }
+    // A dropped file can be moved or deleted before it is read.
+    let scan: AudioScan;
+    try {
+      scan = await scanAudio(audio.format, async () => file.stream());
+    } catch (error) {
+      looseReport.entries.push({ path, outcome: "corrupt", detail: errorMessage(error) });
+      return;
+    }
+    const typedFile = file.type ? file : new File([file], file.name, { type: audio.format.mimeType });
+    const source = storeSource(scan.hash, () => Promise.resolve(typedFile));
+    const metadata = readEmbeddedMetadata(audio.format, scan.sample);
+    const track: Track = {
+      id: createTrackId(),
+      name: file.name,
+      path: relativePath,
+      sourceId: source.sourceId,
+      hash: scan.hash,
+      size: file.size,
+      format: audio.format,
+      tags: metadata.tags,
+      duration: metadata.duration,
+      chapters: metadata.chapters,
+      gapless: metadata.gapless,
+      replayGain: metadata.replayGain,
+      artwork: metadata.picture ?? folderArtwork.find(path),
+      load: source.load,
+    };
+    folder.tracks.push(track);
+    onTrack?.(folder.id, folderName, track);
+    looseReport.entries.push({ path, outcome: "imported", detail: audio.format.label });
+  };
+
+  for (const [index, source] of looseFiles.entries()) {
+    if (signal?.aborted) break;
+    progress.update(source.path, (index / looseFiles.length) * 100);
+    await importLooseFile(source);
+    progress.addBytes(source.file.size);
+  }
+
+  for (const { file, path } of cueSheets) {
+    const { folderName, relativePath } = splitSourcePath(path);
+    const folder = folders.get(folderName);
+    if (!folder) {
+      looseReport.entries.push({ path, outcome: "filtered", detail: "No audio next to the CUE sheet" });
+      continue;
+    }
+    try {
+      const sheet = parseCueSheet(new Uint8Array(await file.arrayBuffer()));
+      folder.tracks = applyCueSheet(relativePath, sheet, folder.tracks);
+      looseReport.entries.push({ path, outcome: "imported", detail: "CUE sheet" });
+    } catch (error) {
+      looseReport.entries.push({ path, outcome: "corrupt", detail: errorMessage(error) });
+    }
+  }
+
+  attachmentFiles.forEach(({ file, type }, path) => {
+    if (signal?.aborted) return;
+    const { folderName, relativePath } = splitSourcePath(path);
+    const folder = folders.get(folderName);
+    if (!folder) {
+      looseReport.entries.push({ path, outcome: "filtered", detail: "No audio next to the attachment" });
+      return;
+    }
+    folder.attachments.push({ path: relativePath, kind: type.kind, blob: file });
+    looseReport.entries.push({ path, outcome: "imported", detail: isArtworkPath(path) ? "Artwork" : type.label });
+  });
+  if (looseReport.entries.length > 0) report.archives.push(looseReport);
+
+  folders.forEach(({ id, tracks, unsupported, attachments }, name) => {
+    const artwork = folderArtwork.forFolder(name === LOOSE_FILES_PLAYLIST ? "" : name) ?? firstArtwork(tracks);
+    playlists.push(createPlaylist(name, sortTracks(tracks), {
+      id,
+      unsupported,
+      attachments: sortAttachments(attachments),
+      artwork,
+    }));
+  });
+
+  return { playlists, aborted: signal?.aborted ?? false, report };
+}
@@ -0,0 +1,63 @@
+import { basename } from "@/lib/folder-tree";
+
+export type ImportLimits = {
+  maxTotalBytes: number;
+  maxEntryBytes: number;
+  maxCompressionRatio: number;
+  maxEntryCount: number;
+};
+
+const GB = 1024 * 1024 * 1024;
+
+export const DEFAULT_IMPORT_LIMITS: ImportLimits = {
+  maxTotalBytes: 20 * GB,
+  maxEntryBytes: 4 * GB,
+  maxCompressionRatio: 100,
+  maxEntryCount: 10000,
+};
+
+// Small entries can legitimately compress very well, so the ratio check only
+// applies past this size.
+const MIN_RATIO_CHECK_BYTES = 1024 * 1024;
+
+type ArchiveSummary = { entryCount: number; totalBytes: number };
+
+/** Reasons an archive is refused before any of it is read, or null if it's within limits. */
+export function checkArchiveLimits({ entryCount, totalBytes }: ArchiveSummary, limits: ImportLimits): string | null {
+  if (entryCount > limits.maxEntryCount) {
+    return `Archive has ${entryCount} entries, more than the limit of ${limits.maxEntryCount}`;
+  }
+  if (totalBytes > limits.maxTotalBytes) {
+    return "Archive expands to more than the total size limit";
+  }
+  return null;
+}
+
+export function checkEntryLimits(uncompressedSize: number, compressedSize: number, limits: ImportLimits): string | null {
+  if (uncompressedSize > limits.maxEntryBytes) return "Larger than the per-entry size limit";
+  if (
+    uncompressedSize > MIN_RATIO_CHECK_BYTES &&
+    uncompressedSize / Math.max(compressedSize, 1) > limits.maxCompressionRatio
+  ) {
+    return "Suspiciously high compression ratio";
+  }
+  return null;
+}
+
+/** Why a path should never be imported: it escapes the archive root or names OS metadata. */
+export function filterReason(path: string): string | null {
+  const segments = path.split("/").filter(Boolean);
+  if (path.startsWith("/") || /^[a-z]:/i.test(path) || path.includes("\0")) {
+    return "Unsafe path";
+  }
+  if (segments.includes("..")) return "Unsafe path";
+  if (segments.includes("__MACOSX")) return "macOS metadata folder";
+
+  const name = basename(path);
+  if (name.startsWith("._")) return "macOS resource fork";
+  if (name === ".DS_Store") return "Finder metadata";
+  if (/^thumbs\.db$/i.test(name)) return "Windows thumbnail cache";
+  if (/^desktop\.ini$/i.test(name)) return "Windows folder settings";
+  if (segments.some(segment => segment.startsWith("."))) return "Hidden file";
+  return null;
+}
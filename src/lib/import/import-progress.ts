@@ -0,0 +1,66 @@
+export type ImportProgress = {
+  /** Archives imported from a URL are downloaded before anything is read from them. */
+  stage: "downloading" | "importing";
+  archiveName: string;
+  archiveIndex: number;
+  archiveCount: number;
+  /** Entry being processed and how far through its archive we are, as in JSZip's `onUpdate` metadata. */
+  currentFile: string | null;
+  percent: number;
+  bytesDone: number;
+  bytesTotal: number;
+};
+
+/** Accumulates progress across every archive in one import and reports it. */
+export class ImportProgressTracker {
+  private progress: ImportProgress;
+  private archiveStart = 0;
+
+  constructor(
+    bytesTotal: number,
+    archiveCount: number,
+    private onUpdate?: (progress: ImportProgress) => void,
+  ) {
+    this.progress = {
+      stage: "importing",
+      archiveName: "",
+      archiveIndex: 0,
+      archiveCount,
+      currentFile: null,
+      percent: 0,
+      bytesDone: 0,
+      bytesTotal,
+    };
+  }
+
+  startArchive(archiveName: string) {
+    this.archiveStart = this.progress.bytesDone;
+    this.emit({
+      archiveName,
+      archiveIndex: this.progress.archiveIndex + 1,
+      currentFile: null,
+      percent: 0,
+    });
+  }
+
+  update(currentFile: string, percent: number) {
+    this.emit({ currentFile, percent });
+  }
+
+  addBytes(bytes: number) {
+    this.emit({ bytesDone: Math.min(this.progress.bytesTotal, this.progress.bytesDone + bytes) });
+  }
+
+  /**
+   * Counts the whole archive as read. Entry sizes leave out headers,
+   * padding and the ZIP central directory, so they fall short of its size.
+   */
+  finishArchive(archiveBytes: number) {
+    this.emit({ bytesDone: Math.min(this.progress.bytesTotal, this.archiveStart + archiveBytes) });
+  }
+
+  private emit(changes: Partial<ImportProgress>) {
+    this.progress = { ...this.progress, ...changes };
+    this.onUpdate?.(this.progress);
+  }
+}
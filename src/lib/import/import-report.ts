@@ -0,0 +1,45 @@
+export type ImportOutcome = "imported" | "unsupported" | "corrupt" | "encrypted" | "duplicate" | "filtered";
+
+export type ImportReportEntry = {
+  path: string;
+  outcome: ImportOutcome;
+  detail?: string;
+};
+
+export type ArchiveReport = {
+  name: string;
+  entries: ImportReportEntry[];
+  /** Set when the archive as a whole could not be read. */
+  error?: string;
+};
+
+export type ImportReport = {
+  archives: ArchiveReport[];
+};
+
+export const IMPORT_OUTCOMES: ImportOutcome[] = ["imported", "unsupported", "corrupt", "encrypted", "duplicate", "filtered"];
+
+/** Outcomes that mean something went wrong, rather than being skipped on purpose. */
+export const FAILED_OUTCOMES: ImportOutcome[] = ["corrupt", "encrypted"];
+
+export const countOutcomes = (entries: ImportReportEntry[]) => {
+  const counts = Object.fromEntries(IMPORT_OUTCOMES.map(outcome => [outcome, 0])) as Record<ImportOutcome, number>;
+  entries.forEach(entry => counts[entry.outcome]++);
+  return counts;
+};
+
+export const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/** One message per archive that failed outright, had failed entries, or held no playable audio. */
+export function describeProblems(report: ImportReport): string[] {
+  return report.archives.flatMap(archive => {
+    if (archive.error) return [`Could not read '${archive.name}': ${archive.error}`];
+
+    const counts = countOutcomes(archive.entries);
+    const failed = FAILED_OUTCOMES.reduce((total, outcome) => total + counts[outcome], 0);
+    const messages: string[] = [];
+    if (failed > 0) messages.push(`${failed} entries in '${archive.name}' could not be imported`);
+    if (counts.imported === 0) messages.push(`No playable audio found in '${archive.name}'`);
+    return messages;
+  });
+}
@@ -0,0 +1,117 @@
+import { listPlayableMimeTypes } from "@/lib/audio-format";
+import type { SourceFile } from "@/lib/import/dropped-files";
+import type { ImportOptions, ImportResult } from "@/lib/import/file-import";
+import { DEFAULT_IMPORT_LIMITS } from "@/lib/import/import-limits";
+import type { TrackData, WorkerRequest, WorkerResponse } from "@/lib/import/worker-protocol";
+import type { Track } from "@/lib/types";
+
+export type WorkerImportOptions = Omit<ImportOptions, "onTrack"> & {
+  /** Receives tracks in batches while the import runs, already usable for playback. */
+  onTracks?: (playlistId: string, playlistName: string, tracks: Track[]) => void;
+};
+
+type PendingRequest = {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onResponse?: (response: WorkerResponse) => void;
+};
+
+/**
+ * The page's side of the import worker. Decompression, sniffing and hashing
+ * all happen in the worker, which also keeps every archive open; tracks
+ * come back as plain data whose `load` asks the worker for the audio.
+ */
+class ImportWorkerClient {
+  private worker: Worker | null = null;
+  private nextRequestId = 0;
+  private pending = new Map<number, PendingRequest>();
+
+  private getWorker() {
+    if (!this.worker) {
+      this.worker = new Worker(new URL("../../workers/import.worker.ts", import.meta.url), { type: "module" });
+      this.worker.addEventListener("message", (event: MessageEvent<WorkerResponse>) => this.handleResponse(event.data));
+      this.worker.addEventListener("error", (event) => {
+        const error = new Error(event.message || "The import worker crashed");
+        this.pending.forEach(request => request.reject(error));
+        this.pending.clear();
+        // Whatever the worker held is lost with it; the next import starts a fresh one.
+        this.worker?.terminate();
+        this.worker = null;
+      });
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: WorkerResponse) {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+    switch (response.type) {
+      case "failed":
+        this.pending.delete(response.id);
+        request.reject(new Error(response.message));
+        break;
+      case "imported":
+      case "loaded":
+        this.pending.delete(response.id);
+        request.resolve(response);
+        break;
+      default:
+        request.onResponse?.(response);
+    }
+  }
+
+  private send<T>(request: WorkerRequest, onResponse?: (response: WorkerResponse) => void): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject, onResponse });
+      this.getWorker().postMessage(request);
+    });
+  }
+
+  loadSource(sourceId: string): Promise<Blob> {
+    return this.send<Extract<WorkerResponse, { type: "loaded" }>>({ type: "load", id: ++this.nextRequestId, sourceId })
+      .then(response => response.blob);
+  }
+
+  async importFiles(
+    sources: SourceFile[],
+    { signal, onUpdate, onTracks, requestPassword, requestCharset, limits = DEFAULT_IMPORT_LIMITS }: WorkerImportOptions = {},
+  ): Promise<ImportResult> {
+    const id = ++this.nextRequestId;
+    // Streamed and final copies of a track are the same object, so the
+    // player doesn't reload the one it is playing when the import finishes.
+    const tracks = new Map<string, Track>();
+    const toTrack = (data: TrackData) => {
+      if (!tracks.has(data.id)) tracks.set(data.id, { ...data, load: () => this.loadSource(data.sourceId) });
+      return tracks.get(data.id);
+    };
+
+    const abort = () => this.getWorker().postMessage({ type: "abort", id } satisfies WorkerRequest);
+    signal?.addEventListener("abort", abort);
+    try {
+      const result = await this.send<Extract<WorkerResponse, { type: "imported" }>>(
+        { type: "import", id, sources, limits, playableMimeTypes: listPlayableMimeTypes() },
+        (response) => {
+          if (response.type === "progress") onUpdate?.(response.progress);
+          if (response.type === "tracks") onTracks?.(response.playlistId, response.playlistName, response.tracks.map(toTrack));
+          if (response.type === "password") {
+            (requestPassword?.(response.archiveName, response.retry) ?? Promise.resolve(null))
+              .then(password => this.getWorker().postMessage({ type: "password", id, password } satisfies WorkerRequest));
+          }
+          if (response.type === "charset") {
+            (requestCharset?.(response.archiveName, response.samples, response.guess) ?? Promise.resolve(response.guess))
+              .then(charset => this.getWorker().postMessage({ type: "charset", id, charset } satisfies WorkerRequest));
+          }
+        },
+      );
+      return {
+        playlists: result.playlists.map(playlist => ({ ...playlist, tracks: playlist.tracks.map(toTrack) })),
+        aborted: result.aborted,
+        report: result.report,
+      };
+    } finally {
+      signal?.removeEventListener("abort", abort);
+    }
+  }
+}
+
+export const importWorker = new ImportWorkerClient();
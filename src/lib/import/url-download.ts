@@ -0,0 +1,188 @@
+import { createDownloadStore } from "@/lib/import/download-store";
+
+export type DownloadProgress = {
+  fileName: string;
+  bytesReceived: number;
+  /** Null until the server says how big the file is, if it ever does. */
+  bytesTotal: number | null;
+  /** Counts up each time an interrupted download is resumed. */
+  attempt: number;
+};
+
+export type DownloadOptions = {
+  signal?: AbortSignal;
+  onProgress?: (progress: DownloadProgress) => void;
+};
+
+export class DownloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DownloadError";
+  }
+}
+
+// Consecutive failures without any new data before giving up.
+const MAX_FAILURES = 5;
+const RETRY_DELAY_MS = 1000;
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+function fileNameFromUrl(url: string) {
+  const name = new URL(url).pathname.split("/").pop() ?? "";
+  try {
+    return decodeURIComponent(name) || "download";
+  } catch {
+    // A stray `%` that isn't an escape: keep the name as it is.
+    return name || "download";
+  }
+}
+
+/** Reads `filename*=UTF-8''…` or `filename="…"` from a Content-Disposition header. */
+function fileNameFromDisposition(header: string | null) {
+  if (!header) return null;
+  const extended = /filename\*\s*=\s*[^']*'[^']*'([^;]+)/i.exec(header);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1].trim());
+    } catch {
+      // Fall through to the plain parameter.
+    }
+  }
+  return /filename\s*=\s*"?([^";]+)"?/i.exec(header)?.[1].trim() ?? null;
+}
+
+/** Parses `bytes <start>-<end>/<total>`; the total may be `*`. */
+function parseContentRange(header: string | null) {
+  const match = /^bytes (\d+)-\d+\/(\d+|\*)$/.exec(header?.trim() ?? "");
+  if (!match) return null;
+  return { start: Number(match[1]), total: match[2] === "*" ? null : Number(match[2]) };
+}
+
+const contentLength = (response: Response) => {
+  const length = response.headers.get("Content-Length");
+  return length === null ? null : Number(length);
+};
+
+/**
+ * Downloads a file to disk with streamed progress (see `createDownloadStore`).
+ * When the connection drops, the download carries on from the last byte
+ * saved with a Range request; `If-Range` makes the server send the whole
+ * file again instead if it has changed in the meantime, and servers that
+ * ignore ranges simply start over. Relative URLs resolve against the page, so archives served
+ * next to the app (e.g. from Vite's `public` folder) work too.
+ */
+export async function downloadFile(url: string, { signal, onProgress }: DownloadOptions = {}): Promise<File> {
+  const resolvedUrl = new URL(url, globalThis.location?.href).href;
+  const store = await createDownloadStore();
+  let fileName = fileNameFromUrl(resolvedUrl);
+  let type = "";
+  let bytesReceived = 0;
+  let bytesTotal: number | null = null;
+  // If-Range needs a strong ETag; Last-Modified is the fallback.
+  let validator: string | null = null;
+  let attempt = 1;
+  let failures = 0;
+
+  const report = () => onProgress?.({ fileName, bytesReceived, bytesTotal, attempt });
+
+  const retryAfter = async (error: unknown) => {
+    if (signal?.aborted) throw error;
+    failures++;
+    if (failures >= MAX_FAILURES) throw error;
+    attempt++;
+    bytesReceived = await store.flush();
+    report();
+    await wait(RETRY_DELAY_MS * 2 ** (failures - 1), signal);
+  };
+
+  const restart = async (response: Response) => {
+    await store.clear();
+    bytesReceived = 0;
+    // A compressed transfer's length doesn't match the bytes the body yields.
+    const encoding = response.headers.get("Content-Encoding");
+    bytesTotal = encoding && encoding !== "identity" ? null : contentLength(response);
+    const etag = response.headers.get("ETag");
+    validator = etag && !etag.startsWith("W/") ? etag : response.headers.get("Last-Modified");
+    fileName = fileNameFromDisposition(response.headers.get("Content-Disposition")) ?? fileName;
+    type = response.headers.get("Content-Type")?.split(";")[0].trim() ?? "";
+  };
+
+  try {
+    for (;;) {
+      const headers: Record<string, string> = {};
+      if (bytesReceived > 0) {
+        headers.Range = `bytes=${bytesReceived}-`;
+        if (validator) headers["If-Range"] = validator;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(resolvedUrl, { headers, signal, cache: "no-store" });
+      } catch (error) {
+        await retryAfter(error);
+        continue;
+      }
+
+      if (response.status === 206 && bytesReceived > 0) {
+        const range = parseContentRange(response.headers.get("Content-Range"));
+        if (range?.start !== bytesReceived) {
+          // Not the range we asked for: fetch the whole file again.
+          await store.clear();
+          bytesReceived = 0;
+          response.body?.cancel().catch(() => {});
+          continue;
+        }
+        bytesTotal = range.total ?? bytesTotal;
+      } else if (response.status === 416 && bytesReceived > 0 && bytesReceived === bytesTotal) {
+        break;
+      } else if (response.ok) {
+        await restart(response);
+      } else {
+        const error = new DownloadError(`Server responded ${response.status} ${response.statusText}`.trim());
+        if (!RETRYABLE_STATUSES.includes(response.status)) throw error;
+        await retryAfter(error);
+        continue;
+      }
+      report();
+
+      try {
+        const reader = response.body.getReader();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          await store.append(value);
+          bytesReceived += value.length;
+          failures = 0;
+          report();
+        }
+      } catch (error) {
+        await retryAfter(error);
+        continue;
+      }
+
+      if (bytesTotal !== null && bytesReceived < bytesTotal) {
+        await retryAfter(new DownloadError("Connection closed before the download finished"));
+        continue;
+      }
+      break;
+    }
+  } catch (error) {
+    await store.discard();
+    throw error;
+  }
+
+  return store.finish(fileName, type);
+}
@@ -0,0 +1,33 @@
+import type { SourceFile } from "@/lib/import/dropped-files";
+import type { ImportLimits } from "@/lib/import/import-limits";
+import type { ImportProgress } from "@/lib/import/import-progress";
+import type { ImportReport } from "@/lib/import/import-report";
+import type { Playlist, Track } from "@/lib/types";
+
+/** A track without its `load` function, which can't cross into another thread. */
+export type TrackData = Omit<Track, "load">;
+
+export type PlaylistData = Omit<Playlist, "tracks"> & { tracks: TrackData[] };
+
+export type WorkerRequest =
+  | { type: "import"; id: number; sources: SourceFile[]; limits: ImportLimits; playableMimeTypes: string[] }
+  | { type: "abort"; id: number }
+  | { type: "password"; id: number; password: string | null }
+  | { type: "charset"; id: number; charset: string | null }
+  | { type: "load"; id: number; sourceId: string };
+
+export type WorkerResponse =
+  | { type: "progress"; id: number; progress: ImportProgress }
+  | { type: "tracks"; id: number; playlistId: string; playlistName: string; tracks: TrackData[] }
+  | { type: "password"; id: number; archiveName: string; retry: boolean }
+  | { type: "charset"; id: number; archiveName: string; samples: Uint8Array[]; guess: string }
+  | { type: "imported"; id: number; playlists: PlaylistData[]; aborted: boolean; report: ImportReport }
+  | { type: "loaded"; id: number; blob: Blob }
+  | { type: "failed"; id: number; message: string };
+
+export const toTrackData = ({ load, ...track }: Track): TrackData => track;
+
+export const toPlaylistData = (playlist: Playlist): PlaylistData => ({
+  ...playlist,
+  tracks: playlist.tracks.map(toTrackData),
+});
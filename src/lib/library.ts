@@ -0,0 +1,35 @@
+import type { Playlist, QueuedTrack } from "@/lib/types";
+
+/**
+ * Finds where a track ended up after the library was rebuilt, e.g. when a
+ * finished import replaces the playlist it had been streaming into. Tracks
+ * are matched by id, first in the playlist with the same id and then
+ * anywhere else. A track a CUE sheet has since split up continues as its
+ * first part. Returns null when the track is gone.
+ */
+export function relocateTrack(previous: Playlist[], next: Playlist[], position: QueuedTrack): QueuedTrack | null {
+  const playlist = previous[position.playlistIndex];
+  const track = playlist?.tracks[position.trackIndex];
+  if (!track) return null;
+
+  const samePlaylistIndex = next.findIndex(candidate => candidate.id === playlist.id);
+  const playlistIndexes = [samePlaylistIndex, ...next.keys()].filter(index => index !== -1);
+  for (const playlistIndex of playlistIndexes) {
+    const trackIndex = next[playlistIndex].tracks.findIndex(candidate => candidate.id === track.id);
+    if (trackIndex !== -1) return { playlistIndex, trackIndex };
+  }
+
+  if (samePlaylistIndex !== -1) {
+    const trackIndex = next[samePlaylistIndex].tracks.findIndex(candidate => candidate.sourceId === track.sourceId);
+    if (trackIndex !== -1) return { playlistIndex: samePlaylistIndex, trackIndex };
+  }
+  return null;
+}
+
+/** Like `relocateTrack`, but stays on the same playlist when only the track is gone. */
+export function relocateSelection(previous: Playlist[], next: Playlist[], position: QueuedTrack): QueuedTrack | null {
+  const relocated = relocateTrack(previous, next, position);
+  if (relocated) return relocated;
+  const playlistIndex = next.findIndex(candidate => candidate.id === previous[position.playlistIndex]?.id);
+  return playlistIndex === -1 ? null : { playlistIndex, trackIndex: 0 };
+}
@@ -0,0 +1,18 @@
+/** Joins byte arrays; a single part is returned as it is. */
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  if (parts.length === 1) return parts[0];
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/** Four-character codes such as MP4 atom types, one byte per character (`©` is 0xA9). */
+export const latin1Bytes = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+export const uint32Bytes = (value: number) => new Uint8Array([value >>> 24, value >>> 16, value >>> 8, value]);
+
+export const uint32leBytes = (value: number) => new Uint8Array([value, value >>> 8, value >>> 16, value >>> 24]);
@@ -0,0 +1,219 @@
+import { id3TagSize, type AudioFormat } from "@/lib/audio-format";
+import { FLAC_STREAMINFO_BLOCK, parseFlacMetadata, parseFlacStreamInfo } from "@/lib/metadata/flac";
+import { hasId3v1Tag } from "@/lib/metadata/id3v1";
+import type { MetadataSample } from "@/lib/metadata/metadata-sample";
+import { findAtom } from "@/lib/metadata/mp4";
+import { readOggPackets } from "@/lib/metadata/ogg";
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const uint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const uint32le = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+// Kilobits per second by bitrate index, for MPEG-1 layers I-III and MPEG-2/2.5 layers I and II-III.
+const MPEG_BITRATES = {
+  v1l1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  v1l2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  v1l3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2l1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  v2l3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MPEG1_SAMPLE_RATES = [44100, 48000, 32000];
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// How far past the ID3 tag to look for the first MPEG frame.
+const MPEG_SYNC_SEARCH = 64 * 1024;
+const ID3V1_SIZE = 128;
+
+const id3v1Size = (sample: MetadataSample) => (hasId3v1Tag(sample.tail) ? ID3V1_SIZE : 0);
+
+function parseMpegHeader(bytes: Uint8Array, offset: number) {
+  if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+  const versionBits = (bytes[offset + 1] >> 3) & 0x03;
+  const layer = 4 - ((bytes[offset + 1] >> 1) & 0x03);
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  if (versionBits === 1 || layer === 4 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+  const isMpeg1 = versionBits === 3;
+  const table = isMpeg1 ? (["v1l1", "v1l2", "v1l3"] as const)[layer - 1] : layer === 1 ? "v2l1" : "v2l3";
+  // MPEG-2 halves the sample rates and MPEG-2.5 quarters them.
+  const sampleRate = MPEG1_SAMPLE_RATES[sampleRateIndex] / (isMpeg1 ? 1 : versionBits === 2 ? 2 : 4);
+  return {
+    isMpeg1,
+    isMono: bytes[offset + 3] >> 6 === 3,
+    bitrate: MPEG_BITRATES[table][bitrateIndex] * 1000,
+    sampleRate,
+    samplesPerFrame: layer === 1 ? 384 : layer === 3 && !isMpeg1 ? 576 : 1152,
+  };
+}
+
+/**
+ * MP3 length from the frame count in a Xing/Info or VBRI header, which VBR
+ * encoders write into the first frame; otherwise from the bitrate, as for
+ * a constant bitrate file.
+ */
+function mp3Duration(sample: MetadataSample) {
+  const bytes = sample.head;
+  const audioStart = id3TagSize(bytes);
+  let offset = audioStart;
+  let header = null;
+  for (const end = Math.min(bytes.length - 4, audioStart + MPEG_SYNC_SEARCH); offset < end; offset++) {
+    header = parseMpegHeader(bytes, offset);
+    if (header) break;
+  }
+  if (!header) return undefined;
+
+  const sideInfoSize = header.isMpeg1 ? (header.isMono ? 17 : 32) : header.isMono ? 9 : 17;
+  const xing = offset + 4 + sideInfoSize;
+  let frames: number | undefined;
+  if (["Xing", "Info"].includes(ascii(bytes, xing, 4)) && uint32(bytes, xing + 4) & 0x01) {
+    frames = uint32(bytes, xing + 8);
+  } else if (ascii(bytes, offset + 36, 4) === "VBRI") {
+    frames = uint32(bytes, offset + 36 + 14);
+  }
+  if (frames) return (frames * header.samplesPerFrame) / header.sampleRate;
+
+  return ((sample.size - offset - id3v1Size(sample)) * 8) / header.bitrate;
+}
+
+/**
+ * ADTS has no header for the whole stream, but each frame says how long it
+ * is. Frames past the sampled head are taken to average the same size as
+ * those in it.
+ */
+function adtsDuration(sample: MetadataSample) {
+  const bytes = sample.head;
+  const audioStart = id3TagSize(bytes);
+  let offset = audioStart;
+  let frames = 0;
+  let sampleRate = 0;
+  while (offset + 7 <= bytes.length && bytes[offset] === 0xff && (bytes[offset + 1] & 0xf6) === 0xf0) {
+    sampleRate ||= ADTS_SAMPLE_RATES[(bytes[offset + 2] >> 2) & 0x0f];
+    const frameLength = ((bytes[offset + 3] & 0x03) << 11) | (bytes[offset + 4] << 3) | (bytes[offset + 5] >> 5);
+    if (frameLength < 7) break;
+    // Each frame holds one to four raw blocks of 1024 samples.
+    frames += (bytes[offset + 6] & 0x03) + 1;
+    offset += frameLength;
+  }
+  if (!sampleRate) return undefined;
+  const audioLength = sample.size - audioStart - id3v1Size(sample);
+  return ((frames * 1024) / sampleRate) * Math.max(1, audioLength / (offset - audioStart));
+}
+
+function flacDuration(bytes: Uint8Array) {
+  const block = parseFlacMetadata(bytes).find(candidate => candidate.type === FLAC_STREAMINFO_BLOCK);
+  const info = block && parseFlacStreamInfo(block.data);
+  return info?.totalSamples ? info.totalSamples / info.sampleRate : undefined;
+}
+
+/** The movie header's duration, in its own timescale. */
+function mp4Duration(bytes: Uint8Array) {
+  const mvhd = findAtom(bytes, ["moov", "mvhd"]);
+  if (!mvhd) return undefined;
+  const { data } = mvhd;
+  const timescale = data[0] === 1 ? uint32(data, 20) : uint32(data, 12);
+  const duration = data[0] === 1 ? uint32(data, 24) * 2 ** 32 + uint32(data, 28) : uint32(data, 16);
+  return timescale ? duration / timescale : undefined;
+}
+
+/**
+ * Walks RIFF or IFF chunks; sizes are little-endian in RIFF and big-endian
+ * in IFF. A chunk's contents stop where `bytes` do, but its `size` is what
+ * its header says.
+ */
+function findChunks(bytes: Uint8Array, littleEndian: boolean) {
+  const chunks = new Map<string, { data: Uint8Array; offset: number; size: number }>();
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = littleEndian ? uint32le(bytes, offset + 4) : uint32(bytes, offset + 4);
+    const id = ascii(bytes, offset, 4);
+    if (!chunks.has(id)) chunks.set(id, { data: bytes.subarray(offset + 8, offset + 8 + size), offset: offset + 8, size });
+    // Chunks are padded to an even length.
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+function wavDuration(sample: MetadataSample) {
+  const chunks = findChunks(sample.head, true);
+  const format = chunks.get("fmt ")?.data;
+  const data = chunks.get("data");
+  const byteRate = format && format.length >= 12 ? uint32le(format, 8) : 0;
+  // Streamed recordings leave the data size at its maximum.
+  return data && byteRate ? Math.min(data.size, sample.size - data.offset) / byteRate : undefined;
+}
+
+/** Reads AIFF's sample rate, an 80-bit extended float. */
+const readExtended = (bytes: Uint8Array, offset: number) => {
+  const exponent = (((bytes[offset] & 0x7f) << 8) | bytes[offset + 1]) - 16383;
+  const mantissa = uint32(bytes, offset + 2) * 2 ** 32 + uint32(bytes, offset + 6);
+  return mantissa * 2 ** (exponent - 63);
+};
+
+function aiffDuration(bytes: Uint8Array) {
+  const comm = findChunks(bytes, false).get("COMM")?.data;
+  if (!comm || comm.length < 18) return undefined;
+  const sampleRate = readExtended(comm, 8);
+  return sampleRate ? uint32(comm, 2) / sampleRate : undefined;
+}
+
+/** The granule position of the stream's last page counts its samples. */
+function oggDuration(sample: MetadataSample) {
+  const [identification] = readOggPackets(sample.head, 1);
+  if (!identification) return undefined;
+  let sampleRate = 0;
+  let preSkip = 0;
+  if (ascii(identification, 0, 8) === "OpusHead") {
+    // Opus always runs at 48 kHz, after skipping the encoder's priming samples.
+    sampleRate = 48000;
+    preSkip = identification[10] | (identification[11] << 8);
+  } else if (ascii(identification, 1, 6) === "vorbis") {
+    sampleRate = uint32le(identification, 12);
+  } else if (ascii(identification, 1, 4) === "FLAC") {
+    sampleRate = parseFlacStreamInfo(identification.subarray(17))?.sampleRate ?? 0;
+  }
+  if (!sampleRate) return undefined;
+
+  const serial = uint32le(sample.head, 14);
+  const bytes = sample.tail;
+  for (let offset = bytes.length - 27; offset >= 0; offset--) {
+    if (bytes[offset] !== 0x4f || ascii(bytes, offset, 4) !== "OggS" || uint32le(bytes, offset + 14) !== serial) continue;
+    const granule = uint32le(bytes, offset + 6) + uint32le(bytes, offset + 10) * 2 ** 32;
+    return Math.max(0, granule - preSkip) / sampleRate;
+  }
+  return undefined;
+}
+
+/**
+ * Works out a file's length in seconds from its container headers, so that
+ * track lists can show durations without decoding anything. Returns
+ * undefined when the container doesn't say.
+ */
+export function readDuration(format: AudioFormat, sample: MetadataSample): number | undefined {
+  const duration = (() => {
+    switch (format.container) {
+      case "mp3":
+        return mp3Duration(sample);
+      case "aac":
+        return adtsDuration(sample);
+      case "flac":
+        return flacDuration(sample.head);
+      case "mp4":
+        return sample.moov && mp4Duration(sample.moov);
+      case "wav":
+        return wavDuration(sample);
+      case "aiff":
+        return aiffDuration(sample.head);
+      case "ogg":
+        return oggDuration(sample);
+      default:
+        return undefined;
+    }
+  })();
+  return duration > 0 && isFinite(duration) ? duration : undefined;
+}
@@ -0,0 +1,136 @@
+import { id3TagSize, type AudioFormat } from "@/lib/audio-format";
+import { guessCharset } from "@/lib/charset";
+import { readDuration } from "@/lib/metadata/duration";
+import { FLAC_VORBIS_COMMENT_BLOCK, parseFlacMetadata, readFlacPictures } from "@/lib/metadata/flac";
+import { parseId3Tag, readId3Pictures, readId3ReplayGain, readId3Tags, readLegacyId3Text } from "@/lib/metadata/id3";
+import { parseId3v1, readId3v1Text } from "@/lib/metadata/id3v1";
+import { readSampleAt, type MetadataSample } from "@/lib/metadata/metadata-sample";
+import { readMp4Chapters, readMp4Gapless, readMp4Items, readMp4Pictures, readMp4ReplayGain, readMp4Tags } from "@/lib/metadata/mp4";
+import { readOggComments } from "@/lib/metadata/ogg";
+import { choosePicture, pictureToBlob, type Picture } from "@/lib/metadata/picture";
+import {
+  parseVorbisComments,
+  readVorbisPictures,
+  readVorbisReplayGain,
+  readVorbisTags,
+  type VorbisComments,
+} from "@/lib/metadata/vorbis-comment";
+import { mergeTags } from "@/lib/track-tags";
+import type { Chapter, GaplessInfo, ReplayGain, TrackTags } from "@/lib/types";
+
+export type EmbeddedMetadata = {
+  tags: TrackTags;
+  /** Seconds, from the container's headers. */
+  duration?: number;
+  picture?: Blob;
+  chapters?: Chapter[];
+  gapless?: GaplessInfo;
+  replayGain?: ReplayGain;
+};
+
+type TagSource = {
+  tags?: TrackTags;
+  pictures?: Picture[];
+  chapters?: Chapter[];
+  gapless?: GaplessInfo;
+  replayGain?: ReplayGain;
+};
+
+const fromVorbisComments = (comments: VorbisComments | null, pictures: Picture[] = []): TagSource =>
+  comments
+    ? {
+      tags: readVorbisTags(comments),
+      pictures: [...pictures, ...readVorbisPictures(comments)],
+      replayGain: readVorbisReplayGain(comments),
+    }
+    : { pictures };
+
+/** The container's own metadata: FLAC blocks, Ogg comment headers or MP4 atoms. */
+function readNativeTags(format: AudioFormat, sample: MetadataSample): TagSource {
+  switch (format.container) {
+    case "flac": {
+      const blocks = parseFlacMetadata(sample.head);
+      const comments = blocks.find(block => block.type === FLAC_VORBIS_COMMENT_BLOCK);
+      return fromVorbisComments(comments ? parseVorbisComments(comments.data) : null, readFlacPictures(blocks));
+    }
+    case "ogg":
+      return fromVorbisComments(readOggComments(sample.head));
+    case "mp4": {
+      if (!sample.moov) return {};
+      const items = readMp4Items(sample.moov);
+      const chapters = readMp4Chapters(sample.moov, (offset, size) => readSampleAt(sample, offset, size));
+      return {
+        tags: readMp4Tags(items),
+        pictures: readMp4Pictures(items),
+        chapters: chapters.length > 0 ? chapters : undefined,
+        gapless: readMp4Gapless(items),
+        replayGain: readMp4ReplayGain(items),
+      };
+    }
+    default:
+      return {};
+  }
+}
+
+function readId3v2(bytes: Uint8Array, legacyCharset: string): TagSource {
+  const tag = id3TagSize(bytes) > 0 ? parseId3Tag(bytes) : null;
+  return tag ? { tags: readId3Tags(tag, legacyCharset), pictures: readId3Pictures(tag), replayGain: readId3ReplayGain(tag) } : {};
+}
+
+/** The tag charset ID3 assumes when a frame doesn't say otherwise. */
+export const DEFAULT_TAG_CHARSET = "windows-1252";
+
+/**
+ * The undecoded text of a file's ID3 tags that claims to be Latin-1, for
+ * telling which charset it is really in. Vorbis comments and MP4 items
+ * are always UTF-8, so only ID3 can be in doubt.
+ */
+export function readLegacyTagText(sample: MetadataSample): Uint8Array[] {
+  try {
+    const tag = id3TagSize(sample.head) > 0 ? parseId3Tag(sample.head) : null;
+    return [...(tag ? readLegacyId3Text(tag) : []), ...readId3v1Text(sample.tail)];
+  } catch {
+    return [];
+  }
+}
+
+const normalizeTags = (tags: TrackTags): TrackTags =>
+  Object.fromEntries(Object.entries(tags).map(([field, value]) => [field, typeof value === "string" ? value.normalize("NFC") : value]));
+
+/**
+ * Reads what a file says about itself from its tags, given a sample of it
+ * (see `MetadataSampler`): the container's own metadata first, then ID3v2
+ * at the start of the stream and ID3v1 at the end. MP4 files can also
+ * carry chapters and gapless playback data, most containers say how long
+ * they are, and ReplayGain can be in any of the tag formats. Broken tags
+ * never fail an import; whatever can't be read is left out. ID3 text that claims to be Latin-1 is read in `legacyCharset`, or in
+ * whichever charset it looks to be in when that isn't given. Text comes
+ * back normalised to NFC.
+ */
+export function readEmbeddedMetadata(format: AudioFormat, sample: MetadataSample, legacyCharset?: string): EmbeddedMetadata {
+  const charset = legacyCharset ?? guessCharset(readLegacyTagText(sample), DEFAULT_TAG_CHARSET);
+  const readers: (() => TagSource)[] = [
+    () => readNativeTags(format, sample),
+    () => readId3v2(sample.head, charset),
+    () => ({ tags: parseId3v1(sample.tail, charset) }),
+  ];
+  const attempt = <T>(read: () => T, fallback: T) => {
+    try {
+      return read();
+    } catch (error) {
+      console.warn("Could not read embedded metadata:", error);
+      return fallback;
+    }
+  };
+  const sources = readers.map(read => attempt(read, {}));
+
+  const picture = choosePicture(sources.flatMap(source => source.pictures ?? []));
+  return {
+    tags: normalizeTags(mergeTags(...sources.map(source => source.tags))),
+    duration: attempt(() => readDuration(format, sample), undefined),
+    picture: picture && pictureToBlob(picture),
+    chapters: sources.find(source => source.chapters)?.chapters,
+    gapless: sources.find(source => source.gapless)?.gapless,
+    replayGain: sources.find(source => source.replayGain)?.replayGain,
+  };
+}
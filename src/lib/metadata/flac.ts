@@ -0,0 +1,82 @@
+import { id3TagSize } from "@/lib/audio-format";
+import { normalizeImageMimeType, type Picture } from "@/lib/metadata/picture";
+
+export type FlacMetadataBlock = {
+  /** 0 is STREAMINFO, 4 VORBIS_COMMENT, 6 PICTURE. */
+  type: number;
+  data: Uint8Array;
+};
+
+export type FlacStreamInfo = {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  /** 0 when the encoder didn't know the length. */
+  totalSamples: number;
+};
+
+export const FLAC_STREAMINFO_BLOCK = 0;
+export const FLAC_VORBIS_COMMENT_BLOCK = 4;
+export const FLAC_PICTURE_BLOCK = 6;
+
+const LAST_BLOCK_FLAG = 0x80;
+
+const uint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+/** Reads the metadata blocks of a native FLAC stream, skipping any ID3 tag glued in front. */
+export function parseFlacMetadata(bytes: Uint8Array): FlacMetadataBlock[] {
+  let offset = id3TagSize(bytes);
+  if (String.fromCharCode(...bytes.subarray(offset, offset + 4)) !== "fLaC") return [];
+  offset += 4;
+
+  const blocks: FlacMetadataBlock[] = [];
+  while (offset + 4 <= bytes.length) {
+    const header = bytes[offset];
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const start = offset + 4;
+    if (start + length > bytes.length) break;
+    blocks.push({ type: header & 0x7f, data: bytes.subarray(start, start + length) });
+    offset = start + length;
+    if (header & LAST_BLOCK_FLAG) break;
+  }
+  return blocks;
+}
+
+/** Parses the STREAMINFO block that every FLAC stream starts with. */
+export function parseFlacStreamInfo(data: Uint8Array): FlacStreamInfo | null {
+  if (data.length < 18) return null;
+  // Sample rate (20 bits), channels - 1 (3), bits per sample - 1 (5) and total samples (36).
+  const sampleRate = (data[10] << 12) | (data[11] << 4) | (data[12] >> 4);
+  const channels = ((data[12] >> 1) & 0x07) + 1;
+  const bitsPerSample = (((data[12] & 0x01) << 4) | (data[13] >> 4)) + 1;
+  const totalSamples = (data[13] & 0x0f) * 2 ** 32 + uint32(data, 14);
+  return sampleRate > 0 ? { sampleRate, channels, bitsPerSample, totalSamples } : null;
+}
+
+/**
+ * Parses the body of a PICTURE block. Ogg streams carry the same structure
+ * base64-encoded in a METADATA_BLOCK_PICTURE comment.
+ */
+export function parseFlacPicture(data: Uint8Array): Picture | null {
+  if (data.length < 32) return null;
+  const type = uint32(data, 0);
+  const mimeLength = uint32(data, 4);
+  let offset = 8 + mimeLength;
+  const mimeType = String.fromCharCode(...data.subarray(8, offset));
+  const descriptionLength = uint32(data, offset);
+  // Skip the description, then width, height, colour depth and palette size.
+  offset += 4 + descriptionLength + 16;
+  const length = uint32(data, offset);
+  offset += 4;
+  if (offset + length > data.length || length === 0) return null;
+
+  const picture = data.subarray(offset, offset + length);
+  return { mimeType: normalizeImageMimeType(mimeType, picture), type, data: picture };
+}
+
+export const readFlacPictures = (blocks: FlacMetadataBlock[]) =>
+  blocks
+    .filter(block => block.type === FLAC_PICTURE_BLOCK)
+    .map(block => parseFlacPicture(block.data))
+    .filter(Boolean);
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { concatBytes, latin1Bytes, uint32Bytes } from "@/lib/metadata/bytes";
+import { parseId3Tag, readId3Pictures, readId3ReplayGain, readId3Tags, writeId3Tag } from "@/lib/metadata/id3";
+import { parseId3v1 } from "@/lib/metadata/id3v1";
+import type { TrackTags } from "@/lib/types";
+
+const syncsafeBytes = (value: number) =>
+  new Uint8Array([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+
+const frameV3 = (id: string, data: Uint8Array, flags = 0) =>
+  concatBytes([latin1Bytes(id), uint32Bytes(data.length), new Uint8Array([0, flags]), data]);
+
+const frameV4 = (id: string, data: Uint8Array, flags = 0) =>
+  concatBytes([latin1Bytes(id), syncsafeBytes(data.length), new Uint8Array([0, flags]), data]);
+
+const tag = (version: number, frames: Uint8Array[], flags = 0) => {
+  const body = concatBytes(frames);
+  return concatBytes([latin1Bytes("ID3"), new Uint8Array([version, 0, flags]), syncsafeBytes(body.length), body]);
+};
+
+const latin1Text = (text: string) => concatBytes([new Uint8Array([0]), latin1Bytes(text)]);
+
+// MPEG frame headers followed by bytes that cover every value, 0xFF included.
+const AUDIO = concatBytes([new Uint8Array([0xff, 0xfb, 0x90, 0x64]), Uint8Array.from({ length: 2048 }, (_, i) => i % 256)]);
+
+const id3v1 = (title: string, trackNumber: number) => {
+  const bytes = new Uint8Array(128);
+  bytes.set(latin1Bytes("TAG"));
+  bytes.set(latin1Bytes(title), 3);
+  bytes.set(latin1Bytes("1999"), 93);
+  bytes[126] = trackNumber;
+  bytes[127] = 17;
+  return bytes;
+};
+
+const PICTURE = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+const v23File = () => concatBytes([
+  tag(3, [
+    frameV3("TIT2", latin1Text("Old title")),
+    frameV3("TPE1", latin1Text("Old artist")),
+    frameV3("TYER", latin1Text("1999")),
+    frameV3("TXXX", latin1Text("REPLAYGAIN_TRACK_GAIN\0-3.50 dB")),
+    frameV3("COMM", latin1Text("engiTunNORM\0 0000031A")),
+    frameV3("COMM", latin1Text("eng\0Old comment")),
+    frameV3("APIC", concatBytes([latin1Text("image/png\0"), new Uint8Array([3, 0]), PICTURE])),
+  ]),
+  AUDIO,
+  id3v1("Old title", 7),
+]);
+
+const EDITED: TrackTags = {
+  title: "Nouveau titre",
+  artist: "First; Second",
+  album: "Альбом",
+  trackNumber: 3,
+  trackTotal: 12,
+  discNumber: 1,
+  discTotal: 2,
+  year: 2004,
+  genre: "Rock",
+  comment: "Edited",
+};
+
+describe("writeId3Tag", () => {
+  it("replaces a v2.3 tag with a v2.4 one that reads back as the edit, keeping other frames and the audio", () => {
+    const original = v23File();
+    const written = writeId3Tag(original, EDITED);
+    const parsed = parseId3Tag(written);
+
+    expect(parsed.version).toBe(4);
+    expect(readId3Tags(parsed)).toEqual({ ...EDITED, albumArtist: undefined });
+    expect(readId3ReplayGain(parsed)).toEqual({ trackGain: -3.5 });
+    expect(readId3Pictures(parsed)).toEqual([{ mimeType: "image/png", type: 3, data: PICTURE }]);
+    expect(parsed.frames.map(frame => frame.id).filter(id => id === "COMM" || id === "TYER")).toEqual(["COMM", "COMM"]);
+
+    const tagSize = 10 + ((written[6] << 21) | (written[7] << 14) | (written[8] << 7) | written[9]);
+    expect(written.subarray(tagSize, written.length - 128)).toEqual(AUDIO);
+  });
+
+  it("updates the ID3v1 tag, keeping fields that Latin-1 can't hold", () => {
+    const written = writeId3Tag(v23File(), EDITED);
+
+    expect(parseId3v1(written)).toEqual({
+      title: "Nouveau titre",
+      artist: "First; Second",
+      album: undefined,
+      year: 2004,
+      comment: "Edited",
+      trackNumber: 3,
+      genre: "Rock",
+    });
+    expect(parseId3v1(writeId3Tag(v23File(), { title: "Заголовок" })).title).toBe("Old title");
+  });
+
+  it("adds a tag to a file without one", () => {
+    const written = writeId3Tag(AUDIO, { title: "Only a title" });
+
+    expect(readId3Tags(parseId3Tag(written)).title).toBe("Only a title");
+    expect(written.subarray(written.length - AUDIO.length)).toEqual(AUDIO);
+  });
+
+  it("carries v2.2 pictures over as APIC frames", () => {
+    const pic = concatBytes([new Uint8Array([0]), latin1Bytes("PNG"), new Uint8Array([3, 0]), PICTURE]);
+    const v22 = concatBytes([
+      tag(2, [concatBytes([latin1Bytes("PIC"), new Uint8Array([0, 0, pic.length]), pic])]),
+      AUDIO,
+    ]);
+    const parsed = parseId3Tag(writeId3Tag(v22, { title: "T" }));
+
+    expect(parsed.frames.map(frame => frame.id)).toEqual(["TIT2", "APIC"]);
+    expect(readId3Pictures(parsed)).toEqual([{ mimeType: "image/png", type: 3, data: PICTURE }]);
+  });
+
+  it("copies compressed and encrypted v2.4 frames through unread, unless the edit replaces them", () => {
+    // Compressed with a data length indicator: 4 bytes of length, then zlib data.
+    const sealed = frameV4("PRIV", Uint8Array.from([0, 0, 0, 20, 0x78, 0x9c, 1, 2, 3]), 0x09);
+    const original = concatBytes([
+      tag(4, [frameV4("TIT2", latin1Text("Old")), sealed, frameV4("TALB", Uint8Array.from([0, 0, 0, 5, 9]), 0x09)]),
+      AUDIO,
+    ]);
+    const parsed = parseId3Tag(writeId3Tag(original, { title: "New" }));
+
+    expect(readId3Tags(parsed).title).toBe("New");
+    expect(parsed.sealedFrames).toEqual([{ id: "PRIV", data: sealed }]);
+  });
+
+  it("marks sealed frames of a wholly unsynchronised v2.4 tag as unsynchronised on their own", () => {
+    const sealed = frameV4("PRIV", Uint8Array.from([0, 0, 0, 20, 0x78, 0x9c, 1]), 0x09);
+    const original = concatBytes([tag(4, [sealed], 0x80), AUDIO]);
+    const [copied] = parseId3Tag(writeId3Tag(original, {})).sealedFrames;
+
+    expect(copied.data[9]).toBe(0x09 | 0x02);
+    expect(copied.data.subarray(10)).toEqual(sealed.subarray(10));
+  });
+
+  it("refuses to rewrite a v2.3 tag with compressed frames", () => {
+    const original = concatBytes([
+      tag(3, [frameV3("TIT2", latin1Text("Old")), frameV3("PRIV", Uint8Array.from([0, 0, 0, 20, 0x78, 0x9c]), 0x80)]),
+      AUDIO,
+    ]);
+    expect(writeId3Tag(original, { title: "New" })).toBeNull();
+  });
+});
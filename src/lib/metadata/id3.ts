@@ -0,0 +1,379 @@
+import { id3TagSize } from "@/lib/audio-format";
+import { decodeWithCharset } from "@/lib/charset";
+import { concatBytes, latin1Bytes } from "@/lib/metadata/bytes";
+import { hasId3v1Tag, ID3V1_GENRES, updateId3v1Tag } from "@/lib/metadata/id3v1";
+import { normalizeImageMimeType, type Picture } from "@/lib/metadata/picture";
+import { parseReplayGain } from "@/lib/metadata/replay-gain-tags";
+import { parseNumberPair, parseYear } from "@/lib/track-tags";
+import type { ReplayGain, TrackTags } from "@/lib/types";
+
+export type Id3Frame = {
+  id: string;
+  data: Uint8Array;
+};
+
+export type Id3Tag = {
+  /** Major version: 2, 3 or 4. */
+  version: number;
+  frames: Id3Frame[];
+  /**
+   * Compressed and encrypted frames, which can't be read, with their
+   * headers as they are in the tag so that they can be carried over.
+   */
+  sealedFrames: Id3Frame[];
+};
+
+const HEADER_SIZE = 10;
+
+const FLAG_UNSYNCHRONISATION = 0x80;
+const FLAG_EXTENDED_HEADER = 0x40;
+
+const FRAME_FLAG_UNSYNCHRONISATION = 0x02;
+const FRAME_FLAG_DATA_LENGTH = 0x01;
+const FRAME_FLAG_COMPRESSION_V3 = 0x80;
+const FRAME_FLAG_ENCRYPTION_V3 = 0x40;
+const FRAME_FLAG_COMPRESSION_V4 = 0x08;
+const FRAME_FLAG_ENCRYPTION_V4 = 0x04;
+
+const syncsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const uint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/** Undoes unsynchronisation, which inserts a zero after every 0xFF. */
+function resynchronise(bytes: Uint8Array): Uint8Array {
+  const output = new Uint8Array(bytes.length);
+  let length = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    output[length++] = bytes[i];
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+  }
+  return output.subarray(0, length);
+}
+
+/**
+ * Reads the frames of an ID3v2.2, v2.3 or v2.4 tag at the start of `bytes`.
+ * Compressed and encrypted frames are set aside unread. Returns null when
+ * there is no tag.
+ */
+export function parseId3Tag(bytes: Uint8Array): Id3Tag | null {
+  if (bytes.length < HEADER_SIZE || ascii(bytes, 0, 3) !== "ID3") return null;
+  const version = bytes[3];
+  if (version < 2 || version > 4) return null;
+
+  const flags = bytes[5];
+  const tagEnd = Math.min(bytes.length, HEADER_SIZE + syncsafe(bytes, 6));
+  let body = bytes.subarray(HEADER_SIZE, tagEnd);
+  // v2.4 marks unsynchronisation on each frame instead.
+  if (flags & FLAG_UNSYNCHRONISATION && version < 4) body = resynchronise(body);
+
+  let offset = 0;
+  if (flags & FLAG_EXTENDED_HEADER && version >= 3) {
+    offset = version === 3 ? uint32(body, 0) + 4 : syncsafe(body, 0);
+  }
+
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  const frames: Id3Frame[] = [];
+  const sealedFrames: Id3Frame[] = [];
+
+  while (offset + headerLength <= body.length && body[offset] !== 0) {
+    const id = ascii(body, offset, idLength);
+    const size =
+      version === 2
+        ? (body[offset + 3] << 16) | (body[offset + 4] << 8) | body[offset + 5]
+        : version === 4
+          ? syncsafe(body, offset + 4)
+          : uint32(body, offset + 4);
+    const frameFlags = version === 2 ? 0 : body[offset + 9];
+    const frameStart = offset;
+    const start = offset + headerLength;
+    offset = start + size;
+    if (offset > body.length || !/^[A-Z0-9]+$/.test(id)) break;
+
+    const skipped =
+      version === 3
+        ? frameFlags & (FRAME_FLAG_COMPRESSION_V3 | FRAME_FLAG_ENCRYPTION_V3)
+        : frameFlags & (FRAME_FLAG_COMPRESSION_V4 | FRAME_FLAG_ENCRYPTION_V4);
+    if (skipped) {
+      const frame = body.slice(frameStart, offset);
+      // A v2.4 frame on its own says whether it is unsynchronised.
+      if (version === 4 && flags & FLAG_UNSYNCHRONISATION) frame[9] |= FRAME_FLAG_UNSYNCHRONISATION;
+      sealedFrames.push({ id, data: frame });
+      continue;
+    }
+
+    let data = body.subarray(start, offset);
+    if (version === 4) {
+      if (frameFlags & FRAME_FLAG_DATA_LENGTH) data = data.subarray(4);
+      if (frameFlags & FRAME_FLAG_UNSYNCHRONISATION || flags & FLAG_UNSYNCHRONISATION) data = resynchronise(data);
+    }
+    frames.push({ id, data });
+  }
+
+  return { version, frames, sealedFrames };
+}
+
+/** Byte length of a string terminator in the given text encoding. */
+const terminatorLength = (encoding: number) => (encoding === 1 || encoding === 2 ? 2 : 1);
+
+/** Finds the end of a terminated string starting at `offset`, or the end of the data. */
+function findTerminator(data: Uint8Array, offset: number, encoding: number) {
+  const step = terminatorLength(encoding);
+  for (let i = offset; i + step <= data.length; i += step) {
+    if (data[i] === 0 && (step === 1 || data[i + 1] === 0)) return i;
+  }
+  return data.length;
+}
+
+/**
+ * Decodes ID3 text: 0 is ISO-8859-1, 1 UTF-16 with BOM, 2 UTF-16BE and 3
+ * UTF-8. Taggers that predate Unicode put whatever the system used into
+ * "ISO-8859-1" frames, so `legacyCharset` can say what they really hold.
+ */
+export function decodeId3Text(encoding: number, bytes: Uint8Array, legacyCharset = "iso-8859-1"): string {
+  switch (encoding) {
+    case 1:
+      return new TextDecoder(bytes[0] === 0xfe && bytes[1] === 0xff ? "utf-16be" : "utf-16le").decode(bytes);
+    case 2:
+      return new TextDecoder("utf-16be").decode(bytes);
+    case 3:
+      return new TextDecoder().decode(bytes);
+    default:
+      return decodeWithCharset(bytes, legacyCharset);
+  }
+}
+
+/** Skips the encoded, terminated string at `offset` and returns where the data after it starts. */
+const skipString = (data: Uint8Array, offset: number, encoding: number) =>
+  Math.min(data.length, findTerminator(data, offset, encoding) + terminatorLength(encoding));
+
+/** Reads every APIC (v2.3+) or PIC (v2.2) frame. */
+export function readId3Pictures(tag: Id3Tag): Picture[] {
+  const pictures: Picture[] = [];
+  for (const { id, data } of tag.frames) {
+    if (id !== "APIC" && id !== "PIC") continue;
+    const encoding = data[0];
+    let offset = 1;
+    let format: string;
+    if (id === "PIC") {
+      format = ascii(data, 1, 3);
+      offset = 4;
+    } else {
+      const mimeEnd = findTerminator(data, offset, 0);
+      format = ascii(data, offset, mimeEnd - offset);
+      offset = mimeEnd + 1;
+    }
+    const type = data[offset];
+    offset = skipString(data, offset + 1, encoding);
+    const picture = data.subarray(offset);
+    if (picture.length === 0) continue;
+    pictures.push({ mimeType: normalizeImageMimeType(format, picture), type, data: picture });
+  }
+  return pictures;
+}
+
+/**
+ * Reads a text frame's values. v2.4 separates several values with nulls,
+ * and each UTF-16 value may carry its own byte order mark.
+ */
+function readTextFrame(data: Uint8Array, legacyCharset?: string): string[] {
+  if (data.length < 2) return [];
+  return decodeId3Text(data[0], data.subarray(1), legacyCharset)
+    .split("\0")
+    .map(value => value.replace(/^\uFEFF/, "").trim())
+    .filter(Boolean);
+}
+
+/** Resolves `(17)`, `(17)Indie Rock`, `17` and the `RX`/`CR` shorthands of `TCON`. */
+function resolveGenre(value: string) {
+  if (value === "RX") return "Remix";
+  if (value === "CR") return "Cover";
+  const reference = /^\((\d+)\)(.*)$/.exec(value);
+  if (reference) return reference[2].trim() || ID3V1_GENRES[Number(reference[1])] || undefined;
+  return /^\d+$/.test(value) ? ID3V1_GENRES[Number(value)] : value;
+}
+
+/** Reads the text of a COMM (v2.3+) or COM (v2.2) frame, with its language and description. */
+function readComment(data: Uint8Array, legacyCharset?: string) {
+  const encoding = data[0];
+  const descriptionEnd = findTerminator(data, 4, encoding);
+  const description = decodeId3Text(encoding, data.subarray(4, descriptionEnd), legacyCharset);
+  const text = decodeId3Text(encoding, data.subarray(skipString(data, 4, encoding)), legacyCharset).replace(/\0+$/, "").trim();
+  return { description, text };
+}
+
+// v2.2 frame ids and their v2.3 equivalents.
+const V2_FRAME_IDS: Record<string, string> = {
+  TT2: "TIT2",
+  TP1: "TPE1",
+  TP2: "TPE2",
+  TAL: "TALB",
+  TRK: "TRCK",
+  TPA: "TPOS",
+  TYE: "TYER",
+  TCO: "TCON",
+  COM: "COMM",
+};
+
+/** Picks the fields the player shows out of an ID3v2 tag's frames. */
+export function readId3Tags(tag: Id3Tag, legacyCharset?: string): TrackTags {
+  const text = new Map<string, string[]>();
+  const comments: { description: string; text: string }[] = [];
+  for (const frame of tag.frames) {
+    const id = V2_FRAME_IDS[frame.id] ?? frame.id;
+    if (id === "COMM") comments.push(readComment(frame.data, legacyCharset));
+    else if (id.startsWith("T") && !text.has(id)) text.set(id, readTextFrame(frame.data, legacyCharset));
+  }
+
+  const first = (id: string) => text.get(id)?.[0];
+  const track = parseNumberPair(first("TRCK"));
+  const disc = parseNumberPair(first("TPOS"));
+  // iTunes keeps its own data in comments with descriptions such as `iTunNORM`.
+  const comment =
+    comments.find(({ description, text }) => !description && text) ??
+    comments.find(({ description, text }) => !description.startsWith("iTun") && text);
+
+  return {
+    title: first("TIT2"),
+    artist: text.get("TPE1")?.join("; "),
+    album: first("TALB"),
+    albumArtist: text.get("TPE2")?.join("; "),
+    trackNumber: track.number,
+    trackTotal: track.total,
+    discNumber: disc.number,
+    discTotal: disc.total,
+    year: parseYear(first("TDRC") ?? first("TYER") ?? first("TORY")),
+    genre: text.get("TCON")?.map(resolveGenre).filter(Boolean).join("; ") || undefined,
+    comment: comment?.text,
+  };
+}
+
+/** Reads ReplayGain from the `TXXX` frames foobar2000 and most other taggers write it to. */
+export function readId3ReplayGain(tag: Id3Tag): ReplayGain | undefined {
+  const userText = new Map<string, string>();
+  for (const { id, data } of tag.frames) {
+    if ((id !== "TXXX" && id !== "TXX") || data.length < 2) continue;
+    const encoding = data[0];
+    const description = decodeId3Text(encoding, data.subarray(1, findTerminator(data, 1, encoding)));
+    const value = decodeId3Text(encoding, data.subarray(skipString(data, 1, encoding))).replace(/\0+$/, "");
+    userText.set(description.replace(/^\uFEFF/, "").toUpperCase(), value.replace(/^\uFEFF/, ""));
+  }
+  return parseReplayGain(name => userText.get(name));
+}
+
+/**
+ * The undecoded text of the "ISO-8859-1" text and comment frames, for
+ * telling which charset they are really in.
+ */
+export function readLegacyId3Text(tag: Id3Tag): Uint8Array[] {
+  return tag.frames
+    .filter(({ id, data }) => data[0] === 0 && (id.startsWith("T") || id === "COMM" || id === "COM"))
+    .map(({ id, data }) => {
+      const start = id.startsWith("T") ? 1 : skipString(data, 4, 0);
+      return data.subarray(start, findTerminator(data, start, 0));
+    })
+    .filter(text => text.length > 0);
+}
+
+const ENCODING_UTF8 = 3;
+
+// Frames rebuilt from the edited tags, plus the v2.3 date frames that v2.4
+// folded into TDRC and the other frames whose layout v2.4 changed.
+const REPLACED_FRAME_IDS = new Set([
+  "TIT2",
+  "TPE1",
+  "TALB",
+  "TPE2",
+  "TRCK",
+  "TPOS",
+  "TDRC",
+  "TCON",
+  "TYER",
+  "TDAT",
+  "TIME",
+  "TORY",
+  "TRDA",
+  "TSIZ",
+  "IPLS",
+  "RVAD",
+  "EQUA",
+]);
+
+const syncsafeBytes = (value: number) =>
+  new Uint8Array([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+
+const buildFrame = (id: string, data: Uint8Array) =>
+  concatBytes([latin1Bytes(id), syncsafeBytes(data.length), new Uint8Array(2), data]);
+
+/** A v2.4 text frame; several values are separated by nulls. */
+const textFrame = (id: string, values: string[]) =>
+  buildFrame(id, concatBytes([new Uint8Array([ENCODING_UTF8]), new TextEncoder().encode(values.join("\0"))]));
+
+const numberPair = (number: number | undefined, total: number | undefined) =>
+  total ? `${number ?? 0}/${total}` : number ? String(number) : undefined;
+
+/** APIC frames for pictures carried over from a v2.2 tag, whose PIC frames v2.4 doesn't know. */
+const pictureFrame = (picture: Picture) =>
+  buildFrame("APIC", concatBytes([
+    new Uint8Array([0]),
+    latin1Bytes(picture.mimeType),
+    new Uint8Array([0, picture.type, 0]),
+    picture.data,
+  ]));
+
+function editedFrames(tags: TrackTags): Uint8Array[] {
+  const text: [string, string | undefined][] = [
+    ["TIT2", tags.title],
+    ["TPE1", tags.artist],
+    ["TALB", tags.album],
+    ["TPE2", tags.albumArtist],
+    ["TRCK", numberPair(tags.trackNumber, tags.trackTotal)],
+    ["TPOS", numberPair(tags.discNumber, tags.discTotal)],
+    ["TDRC", tags.year?.toString()],
+    ["TCON", tags.genre],
+  ];
+  const frames = text.filter(([, value]) => value).map(([id, value]) => textFrame(id, value.split("; ")));
+  if (tags.comment) {
+    // English, with an empty description and its terminator.
+    const header = concatBytes([new Uint8Array([ENCODING_UTF8]), latin1Bytes("eng"), new Uint8Array([0])]);
+    frames.push(buildFrame("COMM", concatBytes([header, new TextEncoder().encode(tags.comment)])));
+  }
+  return frames;
+}
+
+/** Keeps a frame of an existing v2.3 or v2.4 tag unless the edit replaces it. */
+function isKeptFrame({ id, data }: Id3Frame) {
+  if (id === "COMM") return readComment(data).description.startsWith("iTun");
+  return !REPLACED_FRAME_IDS.has(id);
+}
+
+/**
+ * Writes `tags` as an ID3v2.4 tag at the start of the file, in place of
+ * any ID3v2 tag it had. Other frames, such as pictures, are kept, and an
+ * ID3v1 tag at the end is updated so that it can't contradict the edit.
+ * Returns null for a v2.3 tag with compressed or encrypted frames, which
+ * can only be carried over unread into a tag of their own version.
+ */
+export function writeId3Tag(bytes: Uint8Array, tags: TrackTags): Uint8Array | null {
+  const existing = parseId3Tag(bytes);
+  if (existing?.version === 3 && existing.sealedFrames.length > 0) return null;
+  const kept = !existing
+    ? []
+    : existing.version === 2
+      ? readId3Pictures(existing).map(pictureFrame)
+      : existing.frames.filter(isKeptFrame).map(frame => buildFrame(frame.id, frame.data));
+  // Sealed frames the edit replaces go, comments too, as they can't be told apart.
+  const sealed = (existing?.sealedFrames ?? [])
+    .filter(({ id }) => id !== "COMM" && !REPLACED_FRAME_IDS.has(id))
+    .map(frame => frame.data);
+  const body = concatBytes([...editedFrames(tags), ...kept, ...sealed]);
+  const header = concatBytes([latin1Bytes("ID3"), new Uint8Array([4, 0, 0]), syncsafeBytes(body.length)]);
+  const audioEnd = hasId3v1Tag(bytes) ? bytes.length - 128 : bytes.length;
+  const id3v1 = hasId3v1Tag(bytes) ? [updateId3v1Tag(bytes.subarray(audioEnd), tags)] : [];
+  return concatBytes([header, body, bytes.subarray(id3TagSize(bytes), audioEnd), ...id3v1]);
+}
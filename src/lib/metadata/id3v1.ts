@@ -0,0 +1,102 @@
+import { decodeWithCharset } from "@/lib/charset";
+import { latin1Bytes } from "@/lib/metadata/bytes";
+import type { TrackTags } from "@/lib/types";
+
+const TAG_SIZE = 128;
+
+/** Genre numbers of ID3v1, with Winamp's extensions; ID3v2 `TCON` frames refer to them too. */
+export const ID3V1_GENRES = [
+  "Blues", "Classic Rock", "Country", "Dance", "Disco", "Funk", "Grunge", "Hip-Hop", "Jazz", "Metal",
+  "New Age", "Oldies", "Other", "Pop", "R&B", "Rap", "Reggae", "Rock", "Techno", "Industrial",
+  "Alternative", "Ska", "Death Metal", "Pranks", "Soundtrack", "Euro-Techno", "Ambient", "Trip-Hop", "Vocal", "Jazz+Funk",
+  "Fusion", "Trance", "Classical", "Instrumental", "Acid", "House", "Game", "Sound Clip", "Gospel", "Noise",
+  "Alternative Rock", "Bass", "Soul", "Punk", "Space", "Meditative", "Instrumental Pop", "Instrumental Rock", "Ethnic", "Gothic",
+  "Darkwave", "Techno-Industrial", "Electronic", "Pop-Folk", "Eurodance", "Dream", "Southern Rock", "Comedy", "Cult", "Gangsta",
+  "Top 40", "Christian Rap", "Pop/Funk", "Jungle", "Native American", "Cabaret", "New Wave", "Psychedelic", "Rave", "Showtunes",
+  "Trailer", "Lo-Fi", "Tribal", "Acid Punk", "Acid Jazz", "Polka", "Retro", "Musical", "Rock & Roll", "Hard Rock",
+  "Folk", "Folk-Rock", "National Folk", "Swing", "Fast Fusion", "Bebop", "Latin", "Revival", "Celtic", "Bluegrass",
+  "Avantgarde", "Gothic Rock", "Progressive Rock", "Psychedelic Rock", "Symphonic Rock", "Slow Rock", "Big Band", "Chorus", "Easy Listening", "Acoustic",
+  "Humour", "Speech", "Chanson", "Opera", "Chamber Music", "Sonata", "Symphony", "Booty Bass", "Primus", "Porn Groove",
+  "Satire", "Slow Jam", "Club", "Tango", "Samba", "Folklore", "Ballad", "Power Ballad", "Rhythmic Soul", "Freestyle",
+  "Duet", "Punk Rock", "Drum Solo", "A Cappella", "Euro-House", "Dance Hall", "Goa", "Drum & Bass", "Club-House", "Hardcore",
+  "Terror", "Indie", "BritPop", "Negerpunk", "Polsk Punk", "Beat", "Christian Gangsta Rap", "Heavy Metal", "Black Metal", "Crossover",
+  "Contemporary Christian", "Christian Rock", "Merengue", "Salsa", "Thrash Metal", "Anime", "JPop", "Synthpop",
+];
+
+/** Whether the last 128 bytes of a file are an ID3v1 tag. */
+export const hasId3v1Tag = (bytes: Uint8Array) =>
+  bytes.length >= TAG_SIZE &&
+  bytes[bytes.length - TAG_SIZE] === 0x54 &&
+  bytes[bytes.length - TAG_SIZE + 1] === 0x41 &&
+  bytes[bytes.length - TAG_SIZE + 2] === 0x47;
+
+const fieldBytes = (tag: Uint8Array, offset: number, length: number) => {
+  const field = tag.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return end === -1 ? field : field.subarray(0, end);
+};
+
+const hasTrackNumber = (tag: Uint8Array) => tag[125] === 0 && tag[126] !== 0;
+
+/** The undecoded title, artist, album and comment, for telling which charset they are in. */
+export function readId3v1Text(bytes: Uint8Array): Uint8Array[] {
+  if (!hasId3v1Tag(bytes)) return [];
+  const tag = bytes.subarray(bytes.length - TAG_SIZE);
+  return [
+    fieldBytes(tag, 3, 30),
+    fieldBytes(tag, 33, 30),
+    fieldBytes(tag, 63, 30),
+    fieldBytes(tag, 97, hasTrackNumber(tag) ? 28 : 30),
+  ].filter(field => field.length > 0);
+}
+
+/**
+ * Reads the fixed-width ID3v1 tag at the end of a file, including the
+ * v1.1 track number that takes the last two bytes of the comment. The
+ * format has no encoding field; Latin-1 is what it intended, but taggers
+ * wrote whatever the system used, which `legacyCharset` can name.
+ */
+export function parseId3v1(bytes: Uint8Array, legacyCharset = "iso-8859-1"): TrackTags | null {
+  if (!hasId3v1Tag(bytes)) return null;
+  const tag = bytes.subarray(bytes.length - TAG_SIZE);
+  const readField = (offset: number, length: number) =>
+    decodeWithCharset(fieldBytes(tag, offset, length), legacyCharset).trim() || undefined;
+  const year = parseInt(readField(93, 4) ?? "", 10);
+
+  return {
+    title: readField(3, 30),
+    artist: readField(33, 30),
+    album: readField(63, 30),
+    year: year > 0 ? year : undefined,
+    comment: readField(97, hasTrackNumber(tag) ? 28 : 30),
+    trackNumber: hasTrackNumber(tag) ? tag[126] : undefined,
+    genre: ID3V1_GENRES[tag[127]],
+  };
+}
+
+/**
+ * Rewrites an ID3v1 tag with edited tags, so that it agrees with the ID3v2
+ * tag written alongside. A value outside Latin-1 can't be written; its
+ * field keeps what it had, which may well be the same text in a legacy
+ * charset.
+ */
+export function updateId3v1Tag(tag: Uint8Array, tags: TrackTags): Uint8Array {
+  const updated = tag.slice();
+  const writeField = (offset: number, length: number, value: string | undefined) => {
+    const text = (value ?? "").slice(0, length);
+    if ([...text].some(char => char.charCodeAt(0) > 0xff)) return;
+    updated.fill(0, offset, offset + length);
+    updated.set(latin1Bytes(text), offset);
+  };
+  writeField(3, 30, tags.title);
+  writeField(33, 30, tags.artist);
+  writeField(63, 30, tags.album);
+  writeField(93, 4, tags.year > 0 && tags.year < 10000 ? String(tags.year) : undefined);
+  // Always the v1.1 layout, so that a long comment can't pass for a track number.
+  writeField(97, 28, tags.comment);
+  updated[125] = 0;
+  updated[126] = tags.trackNumber > 0 && tags.trackNumber < 256 ? tags.trackNumber : 0;
+  const genre = ID3V1_GENRES.indexOf(tags.genre);
+  updated[127] = genre === -1 ? 255 : genre;
+  return updated;
+}
@@ -0,0 +1,282 @@
+import { id3TagSize, type AudioFormat } from "@/lib/audio-format";
+import { concatBytes } from "@/lib/metadata/bytes";
+import { findMp4ChapterSamples } from "@/lib/metadata/mp4";
+
+/**
+ * The parts of an audio file that its tags and headers are read from, kept
+ * while the file streams past once so that it never has to be held whole.
+ */
+export type MetadataSample = {
+  size: number;
+  /** The start of the file, through its ID3v2 tag and codec headers. */
+  head: Uint8Array;
+  /** The end of the file, where ID3v1 tags and the last Ogg page are. */
+  tail: Uint8Array;
+  /** An MP4 file's `moov` atom, header included, wherever it is in the file. */
+  moov?: Uint8Array;
+  /** Anything else that was needed, by offset: the titles of an MP4 chapter track. */
+  regions: Map<number, Uint8Array>;
+};
+
+/** The file's bytes at an offset, if the sample kept them. */
+export function readSampleAt(sample: MetadataSample, offset: number, length: number): Uint8Array | undefined {
+  if (offset + length <= sample.head.length) return sample.head.subarray(offset, offset + length);
+  const tailStart = sample.size - sample.tail.length;
+  if (offset >= tailStart) return sample.tail.subarray(offset - tailStart, offset - tailStart + length);
+  const region = sample.regions.get(offset);
+  return region && region.length >= length ? region.subarray(0, length) : undefined;
+}
+
+// Far enough past an ID3 tag to find the first MPEG frame and its Xing or
+// VBRI header, and the least kept of any file.
+const MIN_HEAD_BYTES = 68 * 1024;
+// Cover art can make tags and `moov` atoms large; beyond this they are left out.
+const MAX_PART_BYTES = 32 * 1024 * 1024;
+// An ID3v1 tag is 128 bytes and an Ogg page at most 65,307.
+const TAIL_BYTES = 128 * 1024;
+// A chapter track only holds titles.
+const MAX_REGION_BYTES = 1024 * 1024;
+
+const OGG_PAGE_HEADER_SIZE = 27;
+const MAX_OGG_SEGMENTS = 255;
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const uint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const uint32le = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+/** Where the last FLAC metadata block ends. */
+function flacHeaderLength(head: Uint8Array, start: number) {
+  if (start + 4 > head.length) return start + 4;
+  if (ascii(head, start, 4) !== "fLaC") return start;
+  let offset = start + 4;
+  while (offset + 4 <= head.length) {
+    const end = offset + 4 + ((head[offset + 1] << 16) | (head[offset + 2] << 8) | head[offset + 3]);
+    if (head[offset] & 0x80) return end;
+    offset = end;
+  }
+  return offset + 4;
+}
+
+/** Where the page ends that completes the first stream's identification and comment packets. */
+function oggHeaderLength(head: Uint8Array) {
+  let offset = 0;
+  let serial: number | undefined;
+  let packets = 0;
+  while (offset + OGG_PAGE_HEADER_SIZE <= head.length) {
+    if (ascii(head, offset, 4) !== "OggS") return offset;
+    const segmentCount = head[offset + 26];
+    const segments = head.subarray(offset + OGG_PAGE_HEADER_SIZE, offset + OGG_PAGE_HEADER_SIZE + segmentCount);
+    if (segments.length < segmentCount) break;
+    const end = offset + OGG_PAGE_HEADER_SIZE + segmentCount + segments.reduce((total, size) => total + size, 0);
+    serial ??= uint32le(head, offset + 14);
+    if (uint32le(head, offset + 14) === serial) packets += segments.filter(size => size < 255).length;
+    if (packets >= 2) return end;
+    offset = end;
+  }
+  return offset + OGG_PAGE_HEADER_SIZE + MAX_OGG_SEGMENTS;
+}
+
+/** Where the audio data starts in a RIFF or IFF file, after the chunks that describe it. */
+function chunkHeaderLength(head: Uint8Array, littleEndian: boolean) {
+  let offset = 12;
+  while (offset + 8 <= head.length) {
+    if (["data", "SSND"].includes(ascii(head, offset, 4))) return offset + 8;
+    const size = littleEndian ? uint32le(head, offset + 4) : uint32(head, offset + 4);
+    offset += 8 + size + (size % 2);
+  }
+  return offset + 8;
+}
+
+/**
+ * How much of a file's start its tags and codec headers take up, as far
+ * as `head` shows. Past `head.length` while they carry on beyond it.
+ */
+function headerLength(format: AudioFormat, head: Uint8Array) {
+  if (head.length < 10) return 10;
+  const tagEnd = id3TagSize(head);
+  switch (format.container) {
+    case "mp3":
+    case "aac":
+      return tagEnd + MIN_HEAD_BYTES;
+    case "flac":
+      return flacHeaderLength(head, tagEnd);
+    case "ogg":
+      return oggHeaderLength(head);
+    case "wav":
+    case "aiff":
+      return chunkHeaderLength(head, format.container === "wav");
+    default:
+      return tagEnd;
+  }
+}
+
+type Capture = {
+  start: number;
+  bytes: Uint8Array;
+  filled: number;
+  onCaptured: (bytes: Uint8Array) => void;
+};
+
+/**
+ * Builds a `MetadataSample` from a file's chunks as they stream past: the
+ * head grows for as long as the format's headers go on, the tail keeps the
+ * last stretch, and an MP4 file's `moov` atom is picked out wherever it is.
+ * Chapter titles can come before the `moov` atom that says where they are;
+ * when `rewind` says so, the file has to be streamed through once more.
+ */
+export class MetadataSampler {
+  private size = 0;
+  private offset = 0;
+  private head = new Uint8Array(MIN_HEAD_BYTES);
+  private headLength = 0;
+  private headNeeded = MIN_HEAD_BYTES;
+  private headComplete = false;
+  private tail: Uint8Array[] = [];
+  private tailLength = 0;
+  private captures: Capture[] = [];
+  private missed: Capture[] = [];
+  private rewound = false;
+  private moov: Uint8Array | undefined;
+  private regions = new Map<number, Uint8Array>();
+
+  constructor(private readonly format: AudioFormat) {
+    if (format.container === "mp4") this.captureAtom(0);
+  }
+
+  push(chunk: Uint8Array) {
+    const start = this.offset;
+    this.offset += chunk.length;
+    if (!this.rewound) {
+      this.size = this.offset;
+      this.pushHead(chunk);
+      this.pushTail(chunk);
+    }
+    this.pushCaptures(chunk, start);
+  }
+
+  /**
+   * Gets ready for a second pass over the file, for anything it needs that
+   * went by before it knew to keep it. Returns false when there is nothing.
+   */
+  rewind(): boolean {
+    const sample = this.finish();
+    this.missed = this.missed.filter(({ start, bytes }) => !readSampleAt(sample, start, bytes.length));
+    if (this.missed.length === 0) return false;
+    this.rewound = true;
+    this.offset = 0;
+    this.captures = this.missed;
+    this.missed = [];
+    return true;
+  }
+
+  finish(): MetadataSample {
+    return {
+      size: this.size,
+      // A large chunk can carry the head well past where the headers end.
+      head: this.head.slice(0, this.headComplete ? Math.min(this.headNeeded, this.headLength) : this.headLength),
+      tail: concatBytes(this.tail).slice(-TAIL_BYTES),
+      moov: this.moov,
+      regions: this.regions,
+    };
+  }
+
+  private pushHead(chunk: Uint8Array) {
+    if (this.headComplete) return;
+    const length = Math.min(chunk.length, MAX_PART_BYTES - this.headLength);
+    if (this.headLength + length > this.head.length) {
+      const grown = new Uint8Array(Math.min(MAX_PART_BYTES, Math.max(this.head.length * 2, this.headLength + length)));
+      grown.set(this.head.subarray(0, this.headLength));
+      this.head = grown;
+    }
+    this.head.set(chunk.subarray(0, length), this.headLength);
+    this.headLength += length;
+
+    while (!this.headComplete && this.headLength >= this.headNeeded) {
+      const needed = Math.max(MIN_HEAD_BYTES, headerLength(this.format, this.head.subarray(0, this.headLength)));
+      this.headComplete = needed <= this.headLength || this.headLength === MAX_PART_BYTES;
+      this.headNeeded = needed;
+    }
+  }
+
+  private pushTail(chunk: Uint8Array) {
+    this.tail.push(chunk);
+    this.tailLength += chunk.length;
+    while (this.tailLength - this.tail[0].length >= TAIL_BYTES) this.tailLength -= this.tail.shift().length;
+  }
+
+  private pushCaptures(chunk: Uint8Array, chunkStart: number) {
+    const chunkEnd = chunkStart + chunk.length;
+    // Captures can start more captures, which may begin in this chunk too.
+    for (let i = 0; i < this.captures.length; i++) {
+      const capture = this.captures[i];
+      const position = capture.start + capture.filled;
+      if (position < chunkStart) {
+        this.missed.push(capture);
+        continue;
+      }
+      if (position >= chunkEnd) continue;
+      const piece = chunk.subarray(position - chunkStart, position - chunkStart + capture.bytes.length - capture.filled);
+      capture.bytes.set(piece, capture.filled);
+      capture.filled += piece.length;
+      if (capture.filled === capture.bytes.length) capture.onCaptured(capture.bytes);
+    }
+    this.captures = this.captures.filter(capture =>
+      capture.filled < capture.bytes.length && !this.missed.includes(capture));
+  }
+
+  private capture(start: number, length: number, onCaptured: (bytes: Uint8Array) => void, seed?: Uint8Array) {
+    const capture = { start, bytes: new Uint8Array(length), filled: 0, onCaptured };
+    if (seed) {
+      capture.bytes.set(seed.subarray(0, length));
+      capture.filled = Math.min(seed.length, length);
+    }
+    if (capture.filled === length) onCaptured(capture.bytes);
+    else this.captures.push(capture);
+  }
+
+  /** Walks the top-level atoms of an MP4 file by their headers, keeping `moov`. */
+  private captureAtom(start: number, header?: Uint8Array) {
+    if (!header) {
+      this.capture(start, 8, bytes => this.captureAtom(start, bytes));
+      return;
+    }
+    const size32 = uint32(header, 0);
+    if (size32 === 1 && header.length === 8) {
+      // A 64-bit size follows the type.
+      this.capture(start, 16, bytes => this.captureAtom(start, bytes), header);
+      return;
+    }
+    const size = size32 === 1 ? uint32(header, 8) * 2 ** 32 + uint32(header, 12) : size32;
+    // A size of 0 runs to the end of the file; anything below the header's own is corrupt.
+    if (size < header.length) return;
+    if (ascii(header, 4, 4) === "moov" && size <= MAX_PART_BYTES) {
+      this.capture(start, size, moov => {
+        this.moov = moov;
+        this.captureChapterTitles(moov);
+      }, header);
+    }
+    this.captureAtom(start + size);
+  }
+
+  private captureChapterTitles(moov: Uint8Array) {
+    let total = 0;
+    for (const { offset, size } of findMp4ChapterSamples(moov)) {
+      total += size;
+      if (total > MAX_REGION_BYTES) break;
+      this.capture(offset, size, bytes => this.regions.set(offset, bytes));
+    }
+  }
+}
+
+/** Samples a file that is already in memory. */
+export function sampleBytes(format: AudioFormat, bytes: Uint8Array): MetadataSample {
+  const sampler = new MetadataSampler(format);
+  sampler.push(bytes);
+  if (sampler.rewind()) sampler.push(bytes);
+  return sampler.finish();
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { concatBytes, latin1Bytes, uint32Bytes } from "@/lib/metadata/bytes";
+import { findAtom, readAtoms, readMp4Items, readMp4Pictures, readMp4Tags, writeMp4Tags } from "@/lib/metadata/mp4";
+import type { TrackTags } from "@/lib/types";
+
+const contentLength = (contents: Uint8Array[]) => contents.reduce((total, part) => total + part.length, 0);
+
+const atom = (type: string, ...contents: Uint8Array[]) =>
+  concatBytes([uint32Bytes(8 + contentLength(contents)), latin1Bytes(type), ...contents]);
+
+const largeAtom = (type: string, ...contents: Uint8Array[]) =>
+  concatBytes([uint32Bytes(1), latin1Bytes(type), uint32Bytes(0), uint32Bytes(16 + contentLength(contents)), ...contents]);
+
+const item = (type: string, dataType: number, value: Uint8Array) =>
+  atom(type, atom("data", uint32Bytes(dataType), new Uint8Array(4), value));
+
+const uint64Bytes = (value: number) => concatBytes([uint32Bytes(Math.floor(value / 2 ** 32)), uint32Bytes(value % 2 ** 32)]);
+
+const PNG = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+// Three chunks of sample data, at these offsets into `mdat`'s contents.
+const SAMPLES = Uint8Array.from({ length: 400 }, (_, i) => (i * 7) % 256);
+const CHUNK_STARTS = [0, 100, 250];
+
+type Layout = { moovFirst: boolean; co64?: boolean; largeMoov?: boolean; largeIlst?: boolean };
+
+/** An audio file with one track whose chunk offsets point into `mdat`, and some existing tags. */
+function buildMp4({ moovFirst, co64 = false, largeMoov = false, largeIlst = false }: Layout) {
+  const ftyp = atom("ftyp", latin1Bytes("M4A "), uint32Bytes(0), latin1Bytes("M4A mp42isom"));
+  const ilstItems = [
+    item("©nam", 1, new TextEncoder().encode("Old title")),
+    item("©too", 1, new TextEncoder().encode("Encoder 1.0")),
+    item("covr", 14, PNG),
+  ];
+  const moov = (mdatStart: number) => {
+    const offsets = CHUNK_STARTS.map(start => mdatStart + 8 + start);
+    const table = co64
+      ? atom("co64", new Uint8Array(4), uint32Bytes(offsets.length), ...offsets.map(uint64Bytes))
+      : atom("stco", new Uint8Array(4), uint32Bytes(offsets.length), ...offsets.map(uint32Bytes));
+    const trak = atom("trak", atom("mdia", atom("minf", atom("stbl", table))));
+    const hdlr = atom("hdlr", new Uint8Array(8), latin1Bytes("mdirappl"), new Uint8Array(9));
+    const ilst = (largeIlst ? largeAtom : atom)("ilst", ...ilstItems);
+    const udta = atom("udta", atom("meta", new Uint8Array(4), hdlr, ilst));
+    return (largeMoov ? largeAtom : atom)("moov", atom("mvhd", new Uint8Array(100)), trak, udta);
+  };
+  const mdat = atom("mdat", SAMPLES);
+  if (!moovFirst) return concatBytes([ftyp, mdat, moov(ftyp.length)]);
+  const moovLength = moov(0).length;
+  return concatBytes([ftyp, moov(ftyp.length + moovLength), mdat]);
+}
+
+function chunkOffsets(bytes: Uint8Array) {
+  const stbl = ["moov", "trak", "mdia", "minf", "stbl"];
+  const stco = findAtom(bytes, [...stbl, "stco"]);
+  const co64 = findAtom(bytes, [...stbl, "co64"]);
+  const table = stco ?? co64;
+  const view = new DataView(table.data.buffer, table.data.byteOffset, table.data.byteLength);
+  return Array.from({ length: view.getUint32(4) }, (_, i) =>
+    stco ? view.getUint32(8 + 4 * i) : Number(view.getBigUint64(8 + 8 * i)));
+}
+
+/** The bytes each chunk offset points at, which must not change when the tags do. */
+const chunks = (bytes: Uint8Array) => chunkOffsets(bytes).map(offset => bytes.subarray(offset, offset + 50));
+
+const EDITED: TrackTags = {
+  title: "A much longer new title than before",
+  artist: "Artist",
+  album: "Album",
+  albumArtist: "Band",
+  trackNumber: 3,
+  trackTotal: 12,
+  discNumber: 1,
+  discTotal: 2,
+  year: 2004,
+  genre: "Jazz",
+  comment: "Edited",
+};
+
+describe("writeMp4Tags", () => {
+  it.each([
+    { moovFirst: true },
+    { moovFirst: true, co64: true },
+    { moovFirst: false },
+  ])("writes tags that read back, keeping other items and the audio (%o)", layout => {
+    const original = buildMp4(layout);
+    const written = writeMp4Tags(original, EDITED);
+    const items = readMp4Items(written);
+
+    expect(readMp4Tags(items)).toEqual(EDITED);
+    expect(new TextDecoder().decode(items.get("©too")[0].value)).toBe("Encoder 1.0");
+    expect(readMp4Pictures(items)).toEqual([{ mimeType: "image/png", type: 3, data: PNG }]);
+    expect(findAtom(written, ["mdat"]).data).toEqual(SAMPLES);
+    expect(chunks(written)).toEqual(chunks(original));
+  });
+
+  it("only moves chunk offsets when the audio comes after moov", () => {
+    const original = buildMp4({ moovFirst: false });
+    expect(chunkOffsets(writeMp4Tags(original, EDITED))).toEqual(chunkOffsets(original));
+
+    const moovFirst = buildMp4({ moovFirst: true });
+    const written = writeMp4Tags(moovFirst, EDITED);
+    const growth = written.length - moovFirst.length;
+    expect(growth).toBeGreaterThan(0);
+    expect(chunkOffsets(written)).toEqual(chunkOffsets(moovFirst).map(offset => offset + growth));
+  });
+
+  it("keeps 64-bit atom headers", () => {
+    const original = buildMp4({ moovFirst: true, largeMoov: true, largeIlst: true });
+    const written = writeMp4Tags(original, EDITED);
+
+    expect(readAtoms(written).find(candidate => candidate.type === "moov").largeSize).toBe(true);
+    expect(findAtom(written, ["moov", "udta", "meta", "ilst"]).largeSize).toBe(true);
+    expect(readMp4Tags(readMp4Items(written))).toEqual(EDITED);
+    expect(chunks(written)).toEqual(chunks(original));
+  });
+
+  it("adds udta, meta and ilst to a file without tags", () => {
+    const ftyp = atom("ftyp", latin1Bytes("M4A "), uint32Bytes(0));
+    const original = concatBytes([ftyp, atom("mdat", SAMPLES), atom("moov", atom("mvhd", new Uint8Array(100)))]);
+    const written = writeMp4Tags(original, { title: "New" });
+
+    expect(readMp4Tags(readMp4Items(written)).title).toBe("New");
+    expect(findAtom(written, ["moov", "udta", "meta", "hdlr"])).not.toBeNull();
+  });
+
+  it("returns null without a moov atom", () => {
+    expect(writeMp4Tags(atom("mdat", SAMPLES), { title: "New" })).toBeNull();
+  });
+});
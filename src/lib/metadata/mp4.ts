@@ -0,0 +1,422 @@
+import { concatBytes, latin1Bytes, uint32Bytes } from "@/lib/metadata/bytes";
+import { ID3V1_GENRES } from "@/lib/metadata/id3v1";
+import { normalizeImageMimeType, type Picture } from "@/lib/metadata/picture";
+import { parseReplayGain } from "@/lib/metadata/replay-gain-tags";
+import { parseYear } from "@/lib/track-tags";
+import type { Chapter, GaplessInfo, ReplayGain, TrackTags } from "@/lib/types";
+
+export type Mp4Atom = {
+  type: string;
+  /** Contents after the atom's header. */
+  data: Uint8Array;
+  /** Where the whole atom, header included, starts and ends in the bytes it was read from. */
+  start: number;
+  end: number;
+  /** Whether the header gives the size in its 64-bit form. */
+  largeSize: boolean;
+};
+
+/** A `data` atom inside an `ilst` item. */
+export type Mp4DataValue = {
+  /** Well-known type: 1 UTF-8, 13 JPEG, 14 PNG, 21 signed integer, 0 implicit. */
+  type: number;
+  value: Uint8Array;
+};
+
+const DATA_TYPE_UTF8 = 1;
+const DATA_TYPE_JPEG = 13;
+const DATA_TYPE_PNG = 14;
+
+const uint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const atomType = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+/** Splits a run of atoms into their types and contents. */
+export function readAtoms(bytes: Uint8Array): Mp4Atom[] {
+  const atoms: Mp4Atom[] = [];
+  let offset = 0;
+  while (offset + 8 <= bytes.length) {
+    let size = uint32(bytes, offset);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > bytes.length) break;
+      size = uint32(bytes, offset + 8) * 2 ** 32 + uint32(bytes, offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = bytes.length - offset;
+    }
+    if (size < headerSize || offset + size > bytes.length) break;
+    atoms.push({
+      type: atomType(bytes, offset + 4),
+      data: bytes.subarray(offset + headerSize, offset + size),
+      start: offset,
+      end: offset + size,
+      largeSize: headerSize === 16,
+    });
+    offset += size;
+  }
+  return atoms;
+}
+
+// `meta` is a full box with a version and flags ahead of its children,
+// except in some QuickTime files where the children follow directly.
+const hasFullBoxHeader = (meta: Mp4Atom) => atomType(meta.data, 4) !== "hdlr";
+const metaChildren = (meta: Mp4Atom) => (hasFullBoxHeader(meta) ? meta.data.subarray(4) : meta.data);
+
+/** Follows a path of nested atoms such as `moov/udta/meta/ilst`. */
+export function findAtom(bytes: Uint8Array, path: string[]): Mp4Atom | null {
+  let atoms = readAtoms(bytes);
+  let found: Mp4Atom | null = null;
+  for (const type of path) {
+    found = atoms.find(atom => atom.type === type) ?? null;
+    if (!found) return null;
+    atoms = readAtoms(found.type === "meta" ? metaChildren(found) : found.data);
+  }
+  return found;
+}
+
+const utf8 = new TextDecoder();
+
+/** The string after a full box's version and flags, as in the `mean` and `name` of freeform items. */
+const fullBoxString = (atom: Mp4Atom | undefined) => (atom ? utf8.decode(atom.data.subarray(4)) : "");
+
+/**
+ * iTunes-style metadata items from `moov/udta/meta/ilst`, keyed by item
+ * type such as `©nam` or `covr`. Freeform `----` items are keyed by their
+ * domain and name, e.g. `----:com.apple.iTunes:iTunSMPB`.
+ */
+export function readMp4Items(bytes: Uint8Array): Map<string, Mp4DataValue[]> {
+  const items = new Map<string, Mp4DataValue[]>();
+  const ilst = findAtom(bytes, ["moov", "udta", "meta", "ilst"]);
+  if (!ilst) return items;
+
+  for (const item of readAtoms(ilst.data)) {
+    const children = readAtoms(item.data);
+    const values = children
+      .filter(atom => atom.type === "data" && atom.data.length >= 8)
+      .map(atom => ({ type: uint32(atom.data, 0) & 0xffffff, value: atom.data.subarray(8) }));
+    const key = item.type === "----"
+      ? `----:${fullBoxString(children.find(atom => atom.type === "mean"))}:${fullBoxString(children.find(atom => atom.type === "name"))}`
+      : item.type;
+    if (values.length > 0) items.set(key, values);
+  }
+  return items;
+}
+
+export const readMp4Pictures = (items: Map<string, Mp4DataValue[]>): Picture[] =>
+  (items.get("covr") ?? []).map(({ type, value }) => ({
+    mimeType: normalizeImageMimeType(type === DATA_TYPE_PNG ? "image/png" : type === DATA_TYPE_JPEG ? "image/jpeg" : "", value),
+    // covr doesn't distinguish picture types; the first is the cover.
+    type: 3,
+    data: value,
+  }));
+
+/** `trkn` and `disk` hold a number and a total as 16-bit fields after two padding bytes. */
+const readNumberPair = (value: Uint8Array | undefined) => {
+  if (!value || value.length < 6) return {};
+  const number = (value[2] << 8) | value[3];
+  const total = (value[4] << 8) | value[5];
+  return { number: number || undefined, total: total || undefined };
+};
+
+/** Maps the `ilst` items the player shows onto track tags. */
+export function readMp4Tags(items: Map<string, Mp4DataValue[]>): TrackTags {
+  const text = (key: string) => {
+    const values = (items.get(key) ?? [])
+      .filter(({ type }) => type === DATA_TYPE_UTF8)
+      .map(({ value }) => utf8.decode(value).trim())
+      .filter(Boolean);
+    return values.length > 0 ? values.join("; ") : undefined;
+  };
+  const track = readNumberPair(items.get("trkn")?.[0]?.value);
+  const disc = readNumberPair(items.get("disk")?.[0]?.value);
+  // `gnre` is an ID3v1 genre number plus one.
+  const genreNumber = items.get("gnre")?.[0]?.value;
+  const genre = genreNumber?.length >= 2 ? ID3V1_GENRES[((genreNumber[0] << 8) | genreNumber[1]) - 1] : undefined;
+
+  return {
+    title: text("\u00a9nam"),
+    artist: text("\u00a9ART"),
+    album: text("\u00a9alb"),
+    albumArtist: text("aART"),
+    trackNumber: track.number,
+    trackTotal: track.total,
+    discNumber: disc.number,
+    discTotal: disc.total,
+    year: parseYear(text("\u00a9day")),
+    genre: text("\u00a9gen") ?? genre,
+    comment: text("\u00a9cmt"),
+  };
+}
+
+/**
+ * Reads iTunes' gapless playback data. `iTunSMPB` is a row of hex numbers:
+ * a zero, the encoder delay, the padding and the number of real samples.
+ */
+export function readMp4Gapless(items: Map<string, Mp4DataValue[]>): GaplessInfo | undefined {
+  const value = items.get("----:com.apple.iTunes:iTunSMPB")?.[0]?.value;
+  if (!value) return undefined;
+  const fields = utf8.decode(value).trim().split(/\s+/).map(field => parseInt(field, 16));
+  if (fields.length < 4 || fields.slice(1, 4).some(isNaN)) return undefined;
+  return { encoderDelay: fields[1], encoderPadding: fields[2], sampleCount: fields[3] };
+}
+
+/** Reads ReplayGain from freeform items such as `----:com.apple.iTunes:replaygain_track_gain`. */
+export function readMp4ReplayGain(items: Map<string, Mp4DataValue[]>): ReplayGain | undefined {
+  const freeform = new Map<string, string>();
+  for (const [key, values] of items) {
+    if (key.startsWith("----:") && values[0]) freeform.set(key.slice(key.lastIndexOf(":") + 1).toUpperCase(), utf8.decode(values[0].value));
+  }
+  return parseReplayGain(name => freeform.get(name));
+}
+
+/** Nero chapters: `moov/udta/chpl` lists start times in 100 ns units with their titles. */
+function readNeroChapters(bytes: Uint8Array): Chapter[] {
+  const chpl = findAtom(bytes, ["moov", "udta", "chpl"]);
+  if (!chpl) return [];
+  const { data } = chpl;
+  // Version 1 has four reserved bytes after the version and flags.
+  let offset = data[0] === 1 ? 8 : 4;
+  const count = data[offset++];
+
+  const chapters: Chapter[] = [];
+  for (let i = 0; i < count && offset + 9 <= data.length; i++) {
+    const time = uint32(data, offset) * 2 ** 32 + uint32(data, offset + 4);
+    const length = data[offset + 8];
+    const title = utf8.decode(data.subarray(offset + 9, offset + 9 + length));
+    offset += 9 + length;
+    chapters.push({ title, start: time / 1e7 });
+  }
+  return chapters;
+}
+
+const childAtoms = (atom: Mp4Atom | undefined) => (atom ? readAtoms(atom.data) : []);
+const child = (atom: Mp4Atom | undefined, type: string) => childAtoms(atom).find(candidate => candidate.type === type);
+
+const trackId = (trak: Mp4Atom) => {
+  const tkhd = child(trak, "tkhd");
+  if (!tkhd) return undefined;
+  // Creation and modification times are 32 bits in version 0 and 64 in version 1.
+  return uint32(tkhd.data, tkhd.data[0] === 1 ? 20 : 12);
+};
+
+const timescale = (mdhd: Mp4Atom) => uint32(mdhd.data, mdhd.data[0] === 1 ? 20 : 12);
+
+/** File offsets of every sample in a track, from its chunk offsets and sample-to-chunk table. */
+function sampleOffsets(stbl: Mp4Atom, sampleSizes: number[]): number[] {
+  const stsc = child(stbl, "stsc");
+  const stco = child(stbl, "stco");
+  const co64 = child(stbl, "co64");
+  if (!stsc || (!stco && !co64)) return [];
+
+  const chunkOffsets: number[] = [];
+  const table = (stco ?? co64).data;
+  for (let i = 0, count = uint32(table, 4); i < count; i++) {
+    chunkOffsets.push(stco ? uint32(table, 8 + i * 4) : uint32(table, 8 + i * 8) * 2 ** 32 + uint32(table, 12 + i * 8));
+  }
+
+  const runs: { firstChunk: number; samplesPerChunk: number }[] = [];
+  for (let i = 0, count = uint32(stsc.data, 4); i < count; i++) {
+    runs.push({ firstChunk: uint32(stsc.data, 8 + i * 12), samplesPerChunk: uint32(stsc.data, 12 + i * 12) });
+  }
+
+  const offsets: number[] = [];
+  chunkOffsets.forEach((chunkOffset, chunkIndex) => {
+    const run = runs.filter(({ firstChunk }) => firstChunk <= chunkIndex + 1).pop();
+    let offset = chunkOffset;
+    for (let i = 0; i < (run?.samplesPerChunk ?? 0) && offsets.length < sampleSizes.length; i++) {
+      offsets.push(offset);
+      offset += sampleSizes[offsets.length - 1];
+    }
+  });
+  return offsets;
+}
+
+/** A sample of a QuickTime chapter track: where its title is in the file, and when the chapter starts. */
+export type Mp4ChapterSample = {
+  offset: number;
+  size: number;
+  start: number;
+};
+
+/**
+ * QuickTime chapters: a text track that the audio track points to with a
+ * `tref/chap` reference. Each text sample is a title, shown for the
+ * sample's duration; the samples themselves are out in the media data.
+ */
+export function findMp4ChapterSamples(bytes: Uint8Array): Mp4ChapterSample[] {
+  const moov = findAtom(bytes, ["moov"]);
+  const traks = childAtoms(moov).filter(atom => atom.type === "trak");
+  const chap = traks.map(trak => child(child(trak, "tref"), "chap")).find(Boolean);
+  if (!chap) return [];
+  const chapterTrackId = uint32(chap.data, 0);
+  const trak = traks.find(candidate => trackId(candidate) === chapterTrackId);
+  const mdia = child(trak, "mdia");
+  const mdhd = child(mdia, "mdhd");
+  const stbl = child(child(mdia, "minf"), "stbl");
+  const stts = child(stbl, "stts");
+  const stsz = child(stbl, "stsz");
+  if (!mdhd || !stts || !stsz) return [];
+
+  const uniformSize = uint32(stsz.data, 4);
+  const sampleCount = uint32(stsz.data, 8);
+  const sampleSizes = Array.from({ length: sampleCount }, (_, i) => uniformSize || uint32(stsz.data, 12 + i * 4));
+  const offsets = sampleOffsets(stbl, sampleSizes);
+
+  const starts: number[] = [];
+  let time = 0;
+  for (let i = 0, count = uint32(stts.data, 4); i < count; i++) {
+    const samples = uint32(stts.data, 8 + i * 8);
+    const delta = uint32(stts.data, 12 + i * 8);
+    for (let j = 0; j < samples; j++, time += delta) starts.push(time);
+  }
+
+  const scale = timescale(mdhd) || 1;
+  return offsets.map((offset, index) => ({ offset, size: sampleSizes[index], start: (starts[index] ?? 0) / scale }));
+}
+
+function readQuickTimeChapters(bytes: Uint8Array, readSample: (offset: number, size: number) => Uint8Array | undefined): Chapter[] {
+  return findMp4ChapterSamples(bytes).flatMap(({ offset, size, start }) => {
+    // A text sample is a 16-bit length followed by UTF-8, or UTF-16 with a byte order mark.
+    const sample = readSample(offset, size);
+    if (!sample || sample.length < 2) return [];
+    const length = (sample[0] << 8) | sample[1];
+    const text = sample.subarray(2, 2 + length);
+    const isUtf16 = text[0] === 0xfe && text[1] === 0xff;
+    const title = new TextDecoder(isUtf16 ? "utf-16be" : "utf-8").decode(text);
+    return [{ title, start }];
+  });
+}
+
+/**
+ * Chapter marks from Nero `chpl` or a QuickTime chapter track, whichever
+ * the file has. `bytes` needs to hold the `moov` atom; `readSample` returns
+ * the file's bytes at an offset, for the titles of a chapter track.
+ */
+export function readMp4Chapters(bytes: Uint8Array, readSample: (offset: number, size: number) => Uint8Array | undefined): Chapter[] {
+  const nero = readNeroChapters(bytes);
+  return nero.length > 0 ? nero : readQuickTimeChapters(bytes, readSample);
+}
+
+const DATA_TYPE_IMPLICIT = 0;
+
+// Every item `readMp4Tags` looks at.
+const EDITED_ITEMS = new Set(["\u00a9nam", "\u00a9ART", "\u00a9alb", "aART", "trkn", "disk", "\u00a9day", "\u00a9gen", "gnre", "\u00a9cmt"]);
+
+const buildAtom = (type: string, ...contents: Uint8Array[]) => {
+  const size = 8 + contents.reduce((total, part) => total + part.length, 0);
+  return concatBytes([uint32Bytes(size), latin1Bytes(type), ...contents]);
+};
+
+/** An atom whose header gives its size in 64 bits, after a size of 1. */
+const buildLargeAtom = (type: string, ...contents: Uint8Array[]) => {
+  const size = 16 + contents.reduce((total, part) => total + part.length, 0);
+  return concatBytes([uint32Bytes(1), latin1Bytes(type), uint32Bytes(Math.floor(size / 2 ** 32)), uint32Bytes(size % 2 ** 32), ...contents]);
+};
+
+/** Builds an atom in place of `atom`, keeping the form of its header. */
+const buildAtomLike = (atom: Mp4Atom | undefined, type: string, ...contents: Uint8Array[]) =>
+  atom?.largeSize ? buildLargeAtom(type, ...contents) : buildAtom(type, ...contents);
+
+/** Writes an atom back out; `data` still holds whatever followed the header. */
+const rebuildAtom = (atom: Mp4Atom) => buildAtomLike(atom, atom.type, atom.data);
+
+const buildItem = (type: string, dataType: number, value: Uint8Array) =>
+  buildAtom(type, buildAtom("data", uint32Bytes(dataType), new Uint8Array(4), value));
+
+const numberPairValue = (number: number | undefined, total: number | undefined, trailing: number) =>
+  concatBytes([new Uint8Array([0, 0, number >>> 8, number, total >>> 8, total]), new Uint8Array(trailing)]);
+
+function editedItems(tags: TrackTags): Uint8Array[] {
+  const encoder = new TextEncoder();
+  const text: [string, string | undefined][] = [
+    ["\u00a9nam", tags.title],
+    ["\u00a9ART", tags.artist],
+    ["\u00a9alb", tags.album],
+    ["aART", tags.albumArtist],
+    ["\u00a9day", tags.year?.toString()],
+    ["\u00a9gen", tags.genre],
+    ["\u00a9cmt", tags.comment],
+  ];
+  const items = text.filter(([, value]) => value).map(([type, value]) => buildItem(type, DATA_TYPE_UTF8, encoder.encode(value)));
+  // `trkn` has two more padding bytes than `disk`.
+  if (tags.trackNumber || tags.trackTotal) {
+    items.push(buildItem("trkn", DATA_TYPE_IMPLICIT, numberPairValue(tags.trackNumber ?? 0, tags.trackTotal ?? 0, 2)));
+  }
+  if (tags.discNumber || tags.discTotal) {
+    items.push(buildItem("disk", DATA_TYPE_IMPLICIT, numberPairValue(tags.discNumber ?? 0, tags.discTotal ?? 0, 0)));
+  }
+  return items;
+}
+
+/** Rebuilds a list of atoms with one of them replaced, or added at the end when it is missing. */
+const replaceAtom = (atoms: Mp4Atom[], type: string, replacement: Uint8Array) => {
+  const rebuilt = atoms.map(atom => (atom.type === type ? replacement : rebuildAtom(atom)));
+  return atoms.some(atom => atom.type === type) ? rebuilt : [...rebuilt, replacement];
+};
+
+/** Adds `delta` to every chunk offset at or past `from`, in place in the contents of a `moov` atom. */
+function shiftChunkOffsets(moovContents: Uint8Array, from: number, delta: number) {
+  for (const trak of readAtoms(moovContents).filter(atom => atom.type === "trak")) {
+    const stbl = child(child(child(trak, "mdia"), "minf"), "stbl");
+    for (const table of childAtoms(stbl)) {
+      const view = new DataView(table.data.buffer, table.data.byteOffset, table.data.byteLength);
+      const count = view.getUint32(4);
+      if (table.type === "stco") {
+        for (let i = 0, offset = 8; i < count; i++, offset += 4) {
+          const value = view.getUint32(offset);
+          if (value >= from) view.setUint32(offset, value + delta);
+        }
+      } else if (table.type === "co64") {
+        for (let i = 0, offset = 8; i < count; i++, offset += 8) {
+          const value = view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+          if (value < from) continue;
+          view.setUint32(offset, Math.floor((value + delta) / 2 ** 32));
+          view.setUint32(offset + 4, (value + delta) % 2 ** 32);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Writes `tags` into `moov/udta/meta/ilst`, creating the atoms that are
+ * missing and keeping every other item. When `moov` sits in front of the
+ * audio, its new size moves the audio, so the chunk offsets of every track
+ * are shifted to match. Rebuilt atoms keep the header they had, 64-bit
+ * sizes included. Returns null when the file has no `moov`.
+ */
+export function writeMp4Tags(bytes: Uint8Array, tags: TrackTags): Uint8Array | null {
+  const topLevel = readAtoms(bytes);
+  const moov = topLevel.find(atom => atom.type === "moov");
+  if (!moov) return null;
+
+  const moovAtoms = readAtoms(moov.data);
+  const udta = moovAtoms.find(atom => atom.type === "udta");
+  const udtaAtoms = udta ? readAtoms(udta.data) : [];
+  const meta = udtaAtoms.find(atom => atom.type === "meta");
+  const metaAtoms = meta ? readAtoms(metaChildren(meta)) : [];
+  const ilst = metaAtoms.find(atom => atom.type === "ilst");
+
+  const items = [
+    ...(ilst ? readAtoms(ilst.data) : []).filter(item => !EDITED_ITEMS.has(item.type)).map(rebuildAtom),
+    ...editedItems(tags),
+  ];
+  const metaHeader = !meta ? new Uint8Array(4) : hasFullBoxHeader(meta) ? meta.data.subarray(0, 4) : new Uint8Array(0);
+  // iTunes looks for a metadata handler of type `mdir`.
+  const hdlr = metaAtoms.some(atom => atom.type === "hdlr")
+    ? []
+    : [buildAtom("hdlr", new Uint8Array(8), latin1Bytes("mdirappl"), new Uint8Array(9))];
+  const newIlst = buildAtomLike(ilst, "ilst", ...items);
+  const newMeta = buildAtomLike(meta, "meta", metaHeader, ...hdlr, ...replaceAtom(metaAtoms, "ilst", newIlst));
+  const newUdta = buildAtomLike(udta, "udta", ...replaceAtom(udtaAtoms, "meta", newMeta));
+  const newMoov = buildAtomLike(moov, "moov", ...replaceAtom(moovAtoms, "udta", newUdta));
+
+  const delta = newMoov.length - (moov.end - moov.start);
+  if (delta !== 0 && topLevel.some(atom => atom.type === "mdat" && atom.start > moov.start)) {
+    shiftChunkOffsets(newMoov.subarray(moov.largeSize ? 16 : 8), moov.end, delta);
+  }
+  return concatBytes([bytes.subarray(0, moov.start), newMoov, bytes.subarray(moov.end)]);
+}
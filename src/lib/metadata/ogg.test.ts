@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import { concatBytes, latin1Bytes, uint32leBytes } from "@/lib/metadata/bytes";
+import { readOggComments, readOggPackets, writeOggComments } from "@/lib/metadata/ogg";
+import { readVorbisTags } from "@/lib/metadata/vorbis-comment";
+import type { TrackTags } from "@/lib/types";
+
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, index) => {
+  let crc = index << 24;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  return crc >>> 0;
+});
+
+const oggCrc = (bytes: Uint8Array) =>
+  bytes.reduce((crc, byte) => ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0, 0);
+
+type PageOptions = { serial: number; sequence: number; granule?: number; flags?: number; packets: Uint8Array[] };
+
+/** An Ogg page holding whole packets, laced into segments. */
+function page({ serial, sequence, granule = 0, flags = 0, packets }: PageOptions) {
+  const segments: number[] = [];
+  for (const packet of packets) {
+    for (let remaining = packet.length; ; remaining -= 255) {
+      segments.push(Math.min(255, remaining));
+      if (remaining < 255) break;
+    }
+  }
+  const body = concatBytes(packets);
+  const bytes = new Uint8Array(27 + segments.length + body.length);
+  const view = new DataView(bytes.buffer);
+  bytes.set(latin1Bytes("OggS"));
+  bytes[5] = flags;
+  view.setBigInt64(6, BigInt(granule), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  bytes[26] = segments.length;
+  bytes.set(segments, 27);
+  bytes.set(body, 27 + segments.length);
+  view.setUint32(22, oggCrc(bytes), true);
+  return bytes;
+}
+
+type ParsedPage = { serial: number; sequence: number; granule: bigint; crcValid: boolean; body: Uint8Array };
+
+function readPages(bytes: Uint8Array): ParsedPage[] {
+  const pages: ParsedPage[] = [];
+  for (let offset = 0; offset < bytes.length;) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset + offset);
+    const segmentCount = bytes[offset + 26];
+    const bodySize = bytes.subarray(offset + 27, offset + 27 + segmentCount).reduce((total, size) => total + size, 0);
+    const end = offset + 27 + segmentCount + bodySize;
+    const unsealed = bytes.slice(offset, end);
+    unsealed.fill(0, 22, 26);
+    pages.push({
+      serial: view.getUint32(14, true),
+      sequence: view.getUint32(18, true),
+      granule: view.getBigInt64(6, true),
+      crcValid: oggCrc(unsealed) === view.getUint32(22, true),
+      body: bytes.subarray(offset + 27 + segmentCount, end),
+    });
+    offset = end;
+  }
+  return pages;
+}
+
+const commentBlock = (vendor: string, fields: string[]) => {
+  const encoder = new TextEncoder();
+  return concatBytes([
+    uint32leBytes(vendor.length),
+    latin1Bytes(vendor),
+    uint32leBytes(fields.length),
+    ...fields.flatMap(field => [uint32leBytes(encoder.encode(field).length), encoder.encode(field)]),
+  ]);
+};
+
+const audioPacket = (seed: number, length: number) => Uint8Array.from({ length }, (_, i) => (seed * 31 + i) % 256);
+
+const SERIAL = 0x1234;
+
+const audioPages = (firstSequence: number) => [
+  page({ serial: SERIAL, sequence: firstSequence, granule: 960, packets: [audioPacket(1, 300), audioPacket(2, 40)] }),
+  page({ serial: SERIAL, sequence: firstSequence + 1, granule: 1920, packets: [audioPacket(3, 510)] }),
+  page({ serial: SERIAL, sequence: firstSequence + 2, granule: 2880, flags: 0x04, packets: [audioPacket(4, 80)] }),
+];
+
+function opusFile() {
+  const head = concatBytes([latin1Bytes("OpusHead"), new Uint8Array([1, 2, 0x38, 0x01, 0x80, 0xbb, 0, 0, 0, 0, 0])]);
+  const tags = concatBytes([
+    latin1Bytes("OpusTags"),
+    commentBlock("libopus 1.4", ["TITLE=Old title", "ARTIST=Old artist", "R128_TRACK_GAIN=-512", "ENCODER=opusenc"]),
+  ]);
+  return concatBytes([
+    page({ serial: SERIAL, sequence: 0, flags: 0x02, packets: [head] }),
+    page({ serial: SERIAL, sequence: 1, packets: [tags] }),
+    ...audioPages(2),
+  ]);
+}
+
+function vorbisFile() {
+  const identification = concatBytes([new Uint8Array([1]), latin1Bytes("vorbis"), new Uint8Array(23)]);
+  const comment = concatBytes([new Uint8Array([3]), latin1Bytes("vorbis"), commentBlock("Xiph.Org libVorbis", ["TITLE=Old"]), new Uint8Array([1])]);
+  const setup = concatBytes([new Uint8Array([5]), latin1Bytes("vorbis"), audioPacket(9, 700)]);
+  return concatBytes([
+    page({ serial: SERIAL, sequence: 0, flags: 0x02, packets: [identification] }),
+    page({ serial: SERIAL, sequence: 1, packets: [comment, setup] }),
+    ...audioPages(2),
+  ]);
+}
+
+const EDITED: TrackTags = {
+  title: "New title",
+  artist: "First; Second",
+  album: "Album",
+  trackNumber: 3,
+  trackTotal: 12,
+  year: 2004,
+  genre: "Jazz",
+  comment: "Edited",
+};
+
+/** The audio pages of the stream, from the first page with a granule position past zero. */
+const audioOf = (pages: ParsedPage[]) => pages.filter(candidate => candidate.granule > 0n);
+
+describe("writeOggComments", () => {
+  it("rewrites an Opus comment header, keeping other fields and every audio page", () => {
+    const original = opusFile();
+    const written = writeOggComments(original, EDITED);
+    const comments = readOggComments(written);
+
+    expect(readVorbisTags(comments)).toMatchObject(EDITED);
+    expect(comments.get("R128_TRACK_GAIN")).toEqual(["-512"]);
+    expect(comments.get("ENCODER")).toEqual(["opusenc"]);
+    expect(comments.get("ARTIST")).toEqual(["First", "Second"]);
+
+    const pages = readPages(written);
+    expect(pages.every(candidate => candidate.crcValid)).toBe(true);
+    expect(pages.map(candidate => candidate.sequence)).toEqual([0, 1, 2, 3, 4]);
+    expect(audioOf(pages)).toEqual(audioOf(readPages(original)));
+  });
+
+  it("renumbers the audio pages when the Vorbis headers take more pages", () => {
+    const original = vorbisFile();
+    const comment = "Long ".repeat(20_000);
+    const written = writeOggComments(original, { title: "New", comment });
+
+    expect(readVorbisTags(readOggComments(written))).toMatchObject({ title: "New", comment: comment.trim() });
+    // The setup header survives its move onto new pages.
+    expect(readOggPackets(written, 3)[2]).toEqual(readOggPackets(original, 3)[2]);
+
+    const pages = readPages(written);
+    expect(pages.every(candidate => candidate.crcValid)).toBe(true);
+    expect(pages.map(candidate => candidate.sequence)).toEqual(pages.map((_, index) => index));
+    const audio = audioOf(pages);
+    expect(audio[0].sequence).toBeGreaterThan(2);
+    expect(audio.map(({ granule, body }) => ({ granule, body }))).toEqual(
+      audioOf(readPages(original)).map(({ granule, body }) => ({ granule, body })),
+    );
+  });
+
+  it("leaves the pages of other logical streams alone", () => {
+    const other = page({ serial: 99, sequence: 0, flags: 0x02, packets: [latin1Bytes("\x80theora")] });
+    const original = concatBytes([opusFile(), other]);
+    const written = writeOggComments(original, { title: "New" });
+
+    expect(written.subarray(written.length - other.length)).toEqual(other);
+  });
+
+  it("returns null for streams without a comment header it knows", () => {
+    const speex = page({ serial: SERIAL, sequence: 0, flags: 0x02, packets: [latin1Bytes("Speex   ")] });
+    expect(writeOggComments(speex, { title: "New" })).toBeNull();
+  });
+});
@@ -0,0 +1,260 @@
+import { concatBytes, latin1Bytes } from "@/lib/metadata/bytes";
+import { FLAC_VORBIS_COMMENT_BLOCK } from "@/lib/metadata/flac";
+import { parseVorbisComments, writeVorbisComments, type VorbisComments } from "@/lib/metadata/vorbis-comment";
+import type { TrackTags } from "@/lib/types";
+
+const PAGE_HEADER_SIZE = 27;
+
+const FLAG_CONTINUED = 0x01;
+const FLAG_FIRST_PAGE = 0x02;
+const MAX_SEGMENTS = 255;
+
+// Ogg FLAC doesn't always say how many header packets follow; stop looking after this many.
+const MAX_FLAC_HEADER_PACKETS = 16;
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const uint32le = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+/**
+ * Reassembles the first `count` packets of the first logical stream in an
+ * Ogg file, which is where the codec keeps its headers. A packet runs over
+ * as many page segments as it needs; a segment shorter than 255 bytes ends it.
+ */
+export function readOggPackets(bytes: Uint8Array, count: number): Uint8Array[] {
+  const packets: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let serial: number | undefined;
+  let offset = 0;
+
+  while (packets.length < count && offset + PAGE_HEADER_SIZE <= bytes.length && ascii(bytes, offset, 4) === "OggS") {
+    const segmentCount = bytes[offset + 26];
+    const segments = bytes.subarray(offset + PAGE_HEADER_SIZE, offset + PAGE_HEADER_SIZE + segmentCount);
+    const dataStart = offset + PAGE_HEADER_SIZE + segmentCount;
+    const pageEnd = dataStart + segments.reduce((total, size) => total + size, 0);
+    if (pageEnd > bytes.length) break;
+
+    const pageSerial = uint32le(bytes, offset + 14);
+    serial ??= pageSerial;
+    if (pageSerial === serial) {
+      let packetStart = dataStart;
+      let position = dataStart;
+      for (const size of segments) {
+        position += size;
+        if (size === 255) continue;
+        pending.push(bytes.subarray(packetStart, position));
+        packets.push(concatBytes(pending));
+        pending = [];
+        packetStart = position;
+        if (packets.length === count) break;
+      }
+      if (packetStart < position) pending.push(bytes.subarray(packetStart, position));
+    }
+    offset = pageEnd;
+  }
+  return packets;
+}
+
+/** Finds the comment header of an Ogg Vorbis, Opus or FLAC stream. */
+export function readOggComments(bytes: Uint8Array): VorbisComments | null {
+  const [identification, comment] = readOggPackets(bytes, 2);
+  if (!identification) return null;
+
+  if (ascii(identification, 0, 8) === "OpusHead") {
+    return comment && ascii(comment, 0, 8) === "OpusTags" ? parseVorbisComments(comment.subarray(8)) : null;
+  }
+  if (identification[0] === 0x01 && ascii(identification, 1, 6) === "vorbis") {
+    return comment?.[0] === 0x03 && ascii(comment, 1, 6) === "vorbis" ? parseVorbisComments(comment.subarray(7)) : null;
+  }
+  if (identification[0] === 0x7f && ascii(identification, 1, 4) === "FLAC") {
+    // Each header packet after the first is a FLAC metadata block.
+    const headerCount = (identification[7] << 8) | identification[8];
+    const packets = readOggPackets(bytes, 1 + (headerCount || MAX_FLAC_HEADER_PACKETS));
+    const block = packets.slice(1).find(packet => (packet[0] & 0x7f) === FLAC_VORBIS_COMMENT_BLOCK);
+    return block ? parseVorbisComments(block.subarray(4)) : null;
+  }
+  return null;
+}
+
+type OggPage = {
+  serial: number;
+  /** Number of packets that end on this page. */
+  packetEnds: number;
+  start: number;
+  end: number;
+};
+
+function readOggPages(bytes: Uint8Array): OggPage[] {
+  const pages: OggPage[] = [];
+  let offset = 0;
+  while (offset + PAGE_HEADER_SIZE <= bytes.length && ascii(bytes, offset, 4) === "OggS") {
+    const segmentCount = bytes[offset + 26];
+    const segments = bytes.subarray(offset + PAGE_HEADER_SIZE, offset + PAGE_HEADER_SIZE + segmentCount);
+    const end = offset + PAGE_HEADER_SIZE + segmentCount + segments.reduce((total, size) => total + size, 0);
+    if (end > bytes.length) break;
+    pages.push({
+      serial: uint32le(bytes, offset + 14),
+      packetEnds: segments.filter(size => size < 255).length,
+      start: offset,
+      end,
+    });
+    offset = end;
+  }
+  return pages;
+}
+
+// CRC-32 with polynomial 0x04C11DB7, unreflected and starting from zero.
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, index) => {
+  let crc = index << 24;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  return crc >>> 0;
+});
+
+/** Fills in a page's sequence number and checksum. */
+function sealPage(page: Uint8Array, sequence: number) {
+  const view = new DataView(page.buffer, page.byteOffset, page.byteLength);
+  view.setUint32(18, sequence, true);
+  view.setUint32(22, 0);
+  let crc = 0;
+  for (const byte of page) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  view.setUint32(22, crc, true);
+  return page;
+}
+
+/**
+ * Lays header packets out on fresh pages: the identification header alone
+ * on the first page, the rest packed after it, and the last one finishing
+ * its page so that the audio starts on a page of its own.
+ */
+function paginateHeaders(packets: Uint8Array[], serial: number): Uint8Array[] {
+  const pages: Uint8Array[] = [];
+  let segments: number[] = [];
+  let parts: Uint8Array[] = [];
+  let continued = false;
+  let packetEnded = false;
+
+  const flush = () => {
+    const body = concatBytes(parts);
+    const page = new Uint8Array(PAGE_HEADER_SIZE + segments.length + body.length);
+    page.set(latin1Bytes("OggS"));
+    page[5] = (continued ? FLAG_CONTINUED : 0) | (pages.length === 0 ? FLAG_FIRST_PAGE : 0);
+    // Header pages have a granule position of 0, or -1 when no packet ends on them.
+    page.fill(packetEnded ? 0 : 0xff, 6, 14);
+    new DataView(page.buffer).setUint32(14, serial, true);
+    page[26] = segments.length;
+    page.set(segments, PAGE_HEADER_SIZE);
+    page.set(body, PAGE_HEADER_SIZE + segments.length);
+    pages.push(sealPage(page, pages.length));
+    segments = [];
+    parts = [];
+    packetEnded = false;
+  };
+
+  packets.forEach((packet, index) => {
+    // A packet is laced into 255-byte segments and ends with a shorter one, even if empty.
+    for (let offset = 0; ; offset += MAX_SEGMENTS) {
+      const size = Math.min(MAX_SEGMENTS, packet.length - offset);
+      segments.push(size);
+      parts.push(packet.subarray(offset, offset + size));
+      packetEnded ||= size < MAX_SEGMENTS;
+      if (segments.length === MAX_SEGMENTS) {
+        flush();
+        continued = size === MAX_SEGMENTS;
+      }
+      if (size < MAX_SEGMENTS) break;
+    }
+    if ((index === 0 || index === packets.length - 1) && segments.length > 0) {
+      flush();
+      continued = false;
+    }
+  });
+  return pages;
+}
+
+/** Replaces the comment header among a stream's header packets, or returns null for codecs without one. */
+function replaceCommentPacket(headers: Uint8Array[], tags: TrackTags): Uint8Array[] | null {
+  const [identification, comment] = headers;
+  if (ascii(identification, 0, 8) === "OpusHead") {
+    return [identification, concatBytes([latin1Bytes("OpusTags"), writeVorbisComments(comment.subarray(8), tags)]), ...headers.slice(2)];
+  }
+  if (identification[0] === 0x01 && ascii(identification, 1, 6) === "vorbis") {
+    // The Vorbis comment header ends with a framing bit.
+    const packet = concatBytes([comment.subarray(0, 7), writeVorbisComments(comment.subarray(7), tags), new Uint8Array([1])]);
+    return [identification, packet, ...headers.slice(2)];
+  }
+  if (identification[0] === 0x7f && ascii(identification, 1, 4) === "FLAC") {
+    // Copied, as the last-block flags get rewritten.
+    const blocks = headers.slice(1).map(block => block.slice());
+    const index = blocks.findIndex(block => (block[0] & 0x7f) === FLAC_VORBIS_COMMENT_BLOCK);
+    const data = writeVorbisComments(index === -1 ? undefined : blocks[index].subarray(4), tags);
+    const block = concatBytes([new Uint8Array([FLAC_VORBIS_COMMENT_BLOCK, data.length >>> 16, data.length >>> 8, data.length]), data]);
+    // A new comment block goes right after STREAMINFO, which the identification header carries.
+    const updated = index === -1 ? [block, ...blocks] : blocks.map((candidate, i) => (i === index ? block : candidate));
+    updated.forEach((candidate, i) => {
+      candidate[0] = (candidate[0] & 0x7f) | (i === updated.length - 1 ? 0x80 : 0);
+    });
+    const header = identification.slice();
+    if (index === -1) {
+      const count = (header[7] << 8) | header[8];
+      header[7] = (count + 1) >>> 8;
+      header[8] = count + 1;
+    }
+    return [header, ...updated];
+  }
+  return null;
+}
+
+/** How many header packets start the stream: two for Opus, three for Vorbis, and Ogg FLAC says. */
+function headerPacketCount(identification: Uint8Array) {
+  if (ascii(identification, 0, 8) === "OpusHead") return 2;
+  if (identification[0] === 0x01 && ascii(identification, 1, 6) === "vorbis") return 3;
+  if (identification[0] === 0x7f && ascii(identification, 1, 4) === "FLAC") {
+    const count = (identification[7] << 8) | identification[8];
+    return count > 0 ? 1 + count : 0;
+  }
+  return 0;
+}
+
+/**
+ * Writes `tags` into the comment header of an Ogg Vorbis, Opus or FLAC
+ * file. The header pages are laid out afresh and the stream's later pages
+ * renumbered to follow them; audio pages are otherwise left alone. Returns
+ * null when the stream isn't one of those or its headers can't be found.
+ */
+export function writeOggComments(bytes: Uint8Array, tags: TrackTags): Uint8Array | null {
+  const [identification] = readOggPackets(bytes, 1);
+  const count = identification ? headerPacketCount(identification) : 0;
+  if (count === 0) return null;
+  const headers = readOggPackets(bytes, count);
+  if (headers.length < count) return null;
+  const packets = replaceCommentPacket(headers, tags);
+  if (!packets) return null;
+
+  const pages = readOggPages(bytes);
+  const serial = pages[0].serial;
+  const streamPages = pages.filter(page => page.serial === serial);
+  let headerPageCount = 0;
+  for (let ended = 0; ended < count && headerPageCount < streamPages.length; headerPageCount++) {
+    ended += streamPages[headerPageCount].packetEnds;
+    // Audio sharing the last header page breaks the mapping's rules.
+    if (ended > count) return null;
+  }
+  const headerPages = new Set(streamPages.slice(0, headerPageCount));
+  const newHeaderPages = paginateHeaders(packets, serial);
+  const shift = newHeaderPages.length - headerPageCount;
+
+  const output: Uint8Array[] = [];
+  for (const page of pages) {
+    if (headerPages.has(page)) {
+      if (page === streamPages[0]) output.push(...newHeaderPages);
+    } else if (page.serial === serial && shift !== 0) {
+      output.push(sealPage(bytes.slice(page.start, page.end), uint32le(bytes, page.start + 18) + shift));
+    } else {
+      output.push(bytes.subarray(page.start, page.end));
+    }
+  }
+  const last = pages[pages.length - 1];
+  return concatBytes([...output, bytes.subarray(last?.end ?? 0)]);
+}
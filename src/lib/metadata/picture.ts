@@ -0,0 +1,33 @@
+export type Picture = {
+  mimeType: string;
+  /** ID3/FLAC picture type; 3 is the front cover. */
+  type: number;
+  data: Uint8Array;
+};
+
+const FRONT_COVER = 3;
+
+/** Identifies the common image formats for pictures that don't say what they are. */
+export function sniffImageType(data: Uint8Array): string {
+  if (data[0] === 0xff && data[1] === 0xd8) return "image/jpeg";
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return "image/png";
+  if (data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) return "image/gif";
+  if (data[0] === 0x52 && data[1] === 0x49 && data[8] === 0x57 && data[9] === 0x45) return "image/webp";
+  if (data[0] === 0x42 && data[1] === 0x4d) return "image/bmp";
+  return "";
+}
+
+/** Older taggers write bare formats like `JPG` or `jpeg` instead of MIME types. */
+export function normalizeImageMimeType(mimeType: string, data: Uint8Array): string {
+  const type = mimeType.trim().toLowerCase();
+  if (type.startsWith("image/") && type !== "image/jpg") return type;
+  if (["jpg", "jpeg", "image/jpg"].includes(type)) return "image/jpeg";
+  if (type === "png") return "image/png";
+  return sniffImageType(data) || "image/jpeg";
+}
+
+/** Prefers the front cover, then whatever picture comes first. */
+export const choosePicture = (pictures: Picture[]) =>
+  pictures.find(picture => picture.type === FRONT_COVER) ?? pictures[0];
+
+export const pictureToBlob = (picture: Picture) => new Blob([picture.data], { type: picture.mimeType });
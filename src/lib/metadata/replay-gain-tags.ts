@@ -0,0 +1,31 @@
+import type { ReplayGain } from "@/lib/types";
+
+// Opus gains are Q7.8 fixed point towards EBU R128's -23 LUFS, 5 dB below
+// ReplayGain's reference.
+const R128_TO_REPLAY_GAIN = 5;
+
+const parseNumber = (value: string | undefined) => {
+  const number = parseFloat(value ?? "");
+  return isFinite(number) ? number : undefined;
+};
+
+const parseR128Gain = (value: string | undefined) => {
+  const gain = parseNumber(value);
+  return gain === undefined ? undefined : gain / 256 + R128_TO_REPLAY_GAIN;
+};
+
+/**
+ * Reads ReplayGain from fields named as in Vorbis comments, such as
+ * `REPLAYGAIN_TRACK_GAIN` = `-6.48 dB`, which ID3 `TXXX` frames and MP4
+ * freeform items use as well, or from Opus' `R128_TRACK_GAIN`. `field`
+ * looks a name up in upper case.
+ */
+export function parseReplayGain(field: (name: string) => string | undefined): ReplayGain | undefined {
+  const replayGain: ReplayGain = {
+    trackGain: parseNumber(field("REPLAYGAIN_TRACK_GAIN")) ?? parseR128Gain(field("R128_TRACK_GAIN")),
+    trackPeak: parseNumber(field("REPLAYGAIN_TRACK_PEAK")),
+    albumGain: parseNumber(field("REPLAYGAIN_ALBUM_GAIN")) ?? parseR128Gain(field("R128_ALBUM_GAIN")),
+    albumPeak: parseNumber(field("REPLAYGAIN_ALBUM_PEAK")),
+  };
+  return replayGain.trackGain === undefined && replayGain.albumGain === undefined ? undefined : replayGain;
+}
@@ -0,0 +1,60 @@
+import { id3TagSize, type AudioContainer, type AudioFormat } from "@/lib/audio-format";
+import { concatBytes, latin1Bytes } from "@/lib/metadata/bytes";
+import { FLAC_STREAMINFO_BLOCK, FLAC_VORBIS_COMMENT_BLOCK, parseFlacMetadata } from "@/lib/metadata/flac";
+import { writeId3Tag } from "@/lib/metadata/id3";
+import { writeMp4Tags } from "@/lib/metadata/mp4";
+import { writeOggComments } from "@/lib/metadata/ogg";
+import { writeVorbisComments } from "@/lib/metadata/vorbis-comment";
+import type { TrackTags } from "@/lib/types";
+
+export const TAGGABLE_CONTAINERS: AudioContainer[] = ["mp3", "aac", "flac", "ogg", "mp4"];
+
+/**
+ * Replaces the VORBIS_COMMENT block of a native FLAC stream, adding one
+ * after STREAMINFO when there is none. An ID3 tag glued in front is
+ * dropped, since the comments would otherwise compete with it.
+ */
+function writeFlacTags(bytes: Uint8Array, tags: TrackTags): Uint8Array | null {
+  const blocks = parseFlacMetadata(bytes);
+  if (blocks[0]?.type !== FLAC_STREAMINFO_BLOCK) return null;
+  const audioStart = id3TagSize(bytes) + 4 + blocks.reduce((total, block) => total + 4 + block.data.length, 0);
+
+  const comments = blocks.find(block => block.type === FLAC_VORBIS_COMMENT_BLOCK);
+  const updated = { type: FLAC_VORBIS_COMMENT_BLOCK, data: writeVorbisComments(comments?.data, tags) };
+  const rebuilt = comments
+    ? blocks.map(block => (block === comments ? updated : block))
+    : [blocks[0], updated, ...blocks.slice(1)];
+
+  return concatBytes([
+    latin1Bytes("fLaC"),
+    ...rebuilt.flatMap(({ type, data }, index) => [
+      // The last block before the audio carries a flag in its type byte.
+      new Uint8Array([type | (index === rebuilt.length - 1 ? 0x80 : 0), data.length >>> 16, data.length >>> 8, data.length]),
+      data,
+    ]),
+    bytes.subarray(audioStart),
+  ]);
+}
+
+/**
+ * Writes edited tags into a copy of an audio file, in the form its
+ * container uses: ID3v2.4 for MP3 and ADTS streams, Vorbis comments for
+ * FLAC, Vorbis and Opus, and `ilst` items for MP4. Returns null for
+ * containers that can't be tagged this way, such as WAV and Matroska, and
+ * for files that can't be rewritten without losing part of them.
+ */
+export function writeEmbeddedTags(format: AudioFormat, bytes: Uint8Array, tags: TrackTags): Uint8Array | null {
+  switch (format.container) {
+    case "mp3":
+    case "aac":
+      return writeId3Tag(bytes, tags);
+    case "flac":
+      return writeFlacTags(bytes, tags);
+    case "ogg":
+      return writeOggComments(bytes, tags);
+    case "mp4":
+      return writeMp4Tags(bytes, tags);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,166 @@
+import { concatBytes, uint32leBytes } from "@/lib/metadata/bytes";
+import { parseFlacPicture } from "@/lib/metadata/flac";
+import { normalizeImageMimeType, type Picture } from "@/lib/metadata/picture";
+import { parseReplayGain } from "@/lib/metadata/replay-gain-tags";
+import { parseNumberPair, parseYear } from "@/lib/track-tags";
+import type { TrackTags } from "@/lib/types";
+
+/** Field names are case-insensitive, so they are kept upper-cased; a field may repeat. */
+export type VorbisComments = Map<string, string[]>;
+
+const uint32le = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+const utf8 = new TextDecoder();
+
+/** The vendor string and the raw `NAME=value` fields of a comment block. */
+function readFields(data: Uint8Array) {
+  const vendorEnd = 4 + uint32le(data, 0);
+  const vendor = data.subarray(4, vendorEnd);
+  const fields: Uint8Array[] = [];
+  if (vendorEnd + 4 > data.length) return { vendor, fields };
+  const count = uint32le(data, vendorEnd);
+  let offset = vendorEnd + 4;
+
+  for (let i = 0; i < count && offset + 4 <= data.length; i++) {
+    const length = uint32le(data, offset);
+    offset += 4;
+    if (offset + length > data.length) break;
+    fields.push(data.subarray(offset, offset + length));
+    offset += length;
+  }
+  return { vendor, fields };
+}
+
+/**
+ * Parses a Vorbis comment block: a vendor string followed by `NAME=value`
+ * fields, with little-endian lengths. FLAC's VORBIS_COMMENT block and the
+ * comment headers of Ogg Vorbis and Opus all share it.
+ */
+export function parseVorbisComments(data: Uint8Array): VorbisComments {
+  const comments: VorbisComments = new Map();
+  for (const bytes of readFields(data).fields) {
+    const field = utf8.decode(bytes);
+    const equals = field.indexOf("=");
+    if (equals <= 0) continue;
+    const name = field.slice(0, equals).toUpperCase();
+    comments.set(name, [...(comments.get(name) ?? []), field.slice(equals + 1)]);
+  }
+  return comments;
+}
+
+/** Maps the field names in common use, including the variants taggers disagree on. */
+export function readVorbisTags(comments: VorbisComments): TrackTags {
+  const first = (...names: string[]) =>
+    names.map(name => comments.get(name)?.find(value => value.trim())).find(Boolean)?.trim();
+  const all = (name: string) => comments.get(name)?.map(value => value.trim()).filter(Boolean).join("; ") || undefined;
+
+  const track = parseNumberPair(first("TRACKNUMBER"));
+  const disc = parseNumberPair(first("DISCNUMBER"));
+  return {
+    title: first("TITLE"),
+    artist: all("ARTIST"),
+    album: first("ALBUM"),
+    albumArtist: first("ALBUMARTIST", "ALBUM ARTIST"),
+    trackNumber: track.number,
+    trackTotal: track.total ?? parseNumberPair(first("TRACKTOTAL", "TOTALTRACKS")).number,
+    discNumber: disc.number,
+    discTotal: disc.total ?? parseNumberPair(first("DISCTOTAL", "TOTALDISCS")).number,
+    year: parseYear(first("DATE", "YEAR", "ORIGINALDATE")),
+    genre: all("GENRE"),
+    comment: first("COMMENT", "DESCRIPTION"),
+  };
+}
+
+/** Reads the `REPLAYGAIN_*` fields, or the `R128_*` ones of Opus files. */
+export const readVorbisReplayGain = (comments: VorbisComments) => parseReplayGain(name => comments.get(name)?.[0]);
+
+const decodeBase64 = (value: string) => Uint8Array.from(atob(value.replace(/\s+/g, "")), char => char.charCodeAt(0));
+
+/**
+ * Reads pictures stored in comments: base64 FLAC picture blocks in
+ * `METADATA_BLOCK_PICTURE`, as Ogg files carry them, and the older bare
+ * `COVERART` images.
+ */
+export function readVorbisPictures(comments: VorbisComments): Picture[] {
+  const pictures: Picture[] = [];
+  for (const value of comments.get("METADATA_BLOCK_PICTURE") ?? []) {
+    try {
+      const picture = parseFlacPicture(decodeBase64(value));
+      if (picture) pictures.push(picture);
+    } catch {
+      // Not valid base64; ignore this picture.
+    }
+  }
+  const mimeTypes = comments.get("COVERARTMIME") ?? [];
+  (comments.get("COVERART") ?? []).forEach((value, index) => {
+    try {
+      const data = decodeBase64(value);
+      pictures.push({ mimeType: normalizeImageMimeType(mimeTypes[index] ?? "", data), type: 3, data });
+    } catch {
+      // As above.
+    }
+  });
+  return pictures;
+}
+
+// Every field `readVorbisTags` looks at, so that an edit isn't shadowed by a
+// variant spelling left behind.
+const EDITED_FIELDS = new Set([
+  "TITLE",
+  "ARTIST",
+  "ALBUM",
+  "ALBUMARTIST",
+  "ALBUM ARTIST",
+  "TRACKNUMBER",
+  "TRACKTOTAL",
+  "TOTALTRACKS",
+  "DISCNUMBER",
+  "DISCTOTAL",
+  "TOTALDISCS",
+  "DATE",
+  "YEAR",
+  "GENRE",
+  "COMMENT",
+  "DESCRIPTION",
+]);
+
+const fieldName = (field: Uint8Array) => {
+  const equals = field.indexOf(0x3d);
+  return equals === -1 ? "" : String.fromCharCode(...field.subarray(0, equals)).toUpperCase();
+};
+
+/**
+ * Rebuilds a comment block with `tags` in place of the fields the player
+ * reads. The vendor string and every other field, pictures included, stay
+ * as they were; `data` may be missing when the file had no comments yet.
+ * Values the player joined with `; ` are written back as separate fields.
+ */
+export function writeVorbisComments(data: Uint8Array | undefined, tags: TrackTags): Uint8Array {
+  const { vendor, fields } = data ? readFields(data) : { vendor: new Uint8Array(0), fields: [] };
+  const edited: [string, string | number | undefined][] = [
+    ["TITLE", tags.title],
+    ...(tags.artist?.split("; ") ?? []).map((artist): [string, string] => ["ARTIST", artist]),
+    ["ALBUM", tags.album],
+    ["ALBUMARTIST", tags.albumArtist],
+    ["TRACKNUMBER", tags.trackNumber],
+    ["TRACKTOTAL", tags.trackTotal],
+    ["DISCNUMBER", tags.discNumber],
+    ["DISCTOTAL", tags.discTotal],
+    ["DATE", tags.year],
+    ...(tags.genre?.split("; ") ?? []).map((genre): [string, string] => ["GENRE", genre]),
+    ["COMMENT", tags.comment],
+  ];
+
+  const encoder = new TextEncoder();
+  const output = [
+    ...fields.filter(field => !EDITED_FIELDS.has(fieldName(field))),
+    ...edited.filter(([, value]) => value !== undefined && value !== "").map(([name, value]) => encoder.encode(`${name}=${value}`)),
+  ];
+  return concatBytes([
+    uint32leBytes(vendor.length),
+    vendor,
+    uint32leBytes(output.length),
+    ...output.flatMap(field => [uint32leBytes(field.length), field]),
+  ]);
+}
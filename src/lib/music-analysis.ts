@@ -0,0 +1,52 @@
+import { camelotKey, estimateKey, keyName } from "@/lib/musical-key";
+import { estimateTempo } from "@/lib/tempo";
+import type { MusicalKey, Track } from "@/lib/types";
+
+export type MusicAnalysis = {
+  bpm?: number;
+  key?: MusicalKey;
+};
+
+// Beats and notes need nothing above 5.5 kHz, and a low rate keeps both the
+// decoded audio and the work on it small: about 2.6 MB a minute in mono.
+const ANALYSIS_SAMPLE_RATE = 11025;
+
+const MAX_ANALYSIS_SECONDS = 30 * 60;
+
+/**
+ * Whether a track still needs its tempo and key worked out. As with
+ * loudness, tracks cut from a file by a CUE sheet are left alone, since
+ * each would mean decoding the whole file.
+ */
+export const needsMusicAnalysis = (track: Track) =>
+  track.bpm === undefined &&
+  track.key === undefined &&
+  track.start === undefined &&
+  track.duration !== undefined &&
+  track.duration <= MAX_ANALYSIS_SECONDS;
+
+function mixToMono(buffer: AudioBuffer) {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let i = 0; i < mono.length; i++) mono[i] += samples[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+/** Decodes a file offline and estimates its tempo and key. */
+export async function analyseMusic(blob: Blob): Promise<MusicAnalysis> {
+  const decoder = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const buffer = await decoder.decodeAudioData(await blob.arrayBuffer());
+  const samples = mixToMono(buffer);
+  return { bpm: await estimateTempo(samples, buffer.sampleRate), key: await estimateKey(samples, buffer.sampleRate) };
+}
+
+/** `128 BPM · 8A`, or whichever half is known, for track lists. */
+export const shortTempoAndKey = ({ bpm, key }: Track) =>
+  [bpm !== undefined && `${Math.round(bpm)} BPM`, key && camelotKey(key)].filter(Boolean).join(" · ");
+
+/** `128 BPM · A minor (8A)` */
+export const describeTempoAndKey = ({ bpm, key }: Track) =>
+  [bpm !== undefined && `${Math.round(bpm)} BPM`, key && `${keyName(key)} (${camelotKey(key)})`].filter(Boolean).join(" · ");
@@ -0,0 +1,99 @@
+import { forEachSpectrum, powerOfTwoAtLeast } from "@/lib/spectrum";
+import type { MusicalKey } from "@/lib/types";
+
+// Long frames resolve semitones down in the bass: 4096 samples at the
+// analysis rate are about 2.7 Hz a bin.
+const FRAME_DURATION = 0.37;
+const HOPS_PER_FRAME = 2;
+
+/** Notes from C2 to C7 make up the chroma; below and above are mostly rumble and overtones. */
+const LOWEST_FREQUENCY = 65.4;
+const HIGHEST_FREQUENCY = 2093;
+
+// Krumhansl and Kessler's probe-tone ratings of each pitch class in C major
+// and C minor.
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const MAJOR_NAMES = ["C", "D♭", "D", "E♭", "E", "F", "F♯", "G", "A♭", "A", "B♭", "B"];
+const MINOR_NAMES = ["C", "C♯", "D", "E♭", "E", "F", "F♯", "G", "G♯", "A", "B♭", "B"];
+
+function correlate(a: number[], b: number[]) {
+  const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  let product = 0;
+  let squaresA = 0;
+  let squaresB = 0;
+  for (let i = 0; i < a.length; i++) {
+    product += (a[i] - meanA) * (b[i] - meanB);
+    squaresA += (a[i] - meanA) ** 2;
+    squaresB += (b[i] - meanB) ** 2;
+  }
+  return product / Math.sqrt(squaresA * squaresB);
+}
+
+/** How strongly each pitch class sounds over the whole of `samples`, assuming A at 440 Hz. */
+async function chromaProfile(samples: Float32Array, sampleRate: number) {
+  const frameSize = powerOfTwoAtLeast(FRAME_DURATION * sampleRate);
+  const pitchClasses = Array.from({ length: frameSize / 2 + 1 }, (_, bin) => {
+    const frequency = (bin * sampleRate) / frameSize;
+    if (frequency < LOWEST_FREQUENCY || frequency > HIGHEST_FREQUENCY) return -1;
+    return Math.round(69 + 12 * Math.log2(frequency / 440)) % 12;
+  });
+
+  const chroma = new Array<number>(12).fill(0);
+  await forEachSpectrum(samples, frameSize, frameSize / HOPS_PER_FRAME, magnitudes => {
+    for (let bin = 0; bin < magnitudes.length; bin++) {
+      if (pitchClasses[bin] !== -1) chroma[pitchClasses[bin]] += magnitudes[bin];
+    }
+  });
+  return chroma;
+}
+
+/**
+ * Estimates the key by matching the chroma profile against every major and
+ * minor key's, or undefined for silence. Relative keys share their notes,
+ * so a track can come out as its relative major or minor.
+ */
+export async function estimateKey(samples: Float32Array, sampleRate: number): Promise<MusicalKey | undefined> {
+  const chroma = await chromaProfile(samples, sampleRate);
+  if (chroma.every(value => value === chroma[0])) return undefined;
+
+  let best: MusicalKey | undefined;
+  let bestCorrelation = -Infinity;
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = chroma.map((_, pitchClass) => chroma[(pitchClass + tonic) % 12]);
+    for (const [mode, profile] of [["major", MAJOR_PROFILE], ["minor", MINOR_PROFILE]] as const) {
+      const correlation = correlate(rotated, profile);
+      if (correlation > bestCorrelation) {
+        best = { tonic, mode };
+        bestCorrelation = correlation;
+      }
+    }
+  }
+  return best;
+}
+
+/** `A minor`, `E♭ major` */
+export const keyName = ({ tonic, mode }: MusicalKey) =>
+  `${mode === "major" ? MAJOR_NAMES[tonic] : MINOR_NAMES[tonic]} ${mode}`;
+
+/**
+ * The key's position on the Camelot wheel, 1 to 12 round the circle of
+ * fifths from B major and G♯ minor.
+ */
+export const camelotNumber = ({ tonic, mode }: MusicalKey) => {
+  const major = mode === "major" ? tonic : (tonic + 3) % 12;
+  return ((major * 7 + 7) % 12) + 1;
+};
+
+/** `8A` for A minor, `8B` for C major: keys next to each other on the wheel mix well. */
+export const camelotKey = (key: MusicalKey) => `${camelotNumber(key)}${key.mode === "major" ? "B" : "A"}`;
+
+/** Every key in Camelot order, 1A, 1B, 2A and on round the wheel. */
+export const CAMELOT_KEYS: MusicalKey[] = Array.from({ length: 24 }, (_, index) => {
+  const mode = index % 2 === 0 ? "minor" : "major";
+  const major = (((Math.floor(index / 2) + 5) * 7) % 12 + 12) % 12;
+  return { tonic: mode === "major" ? major : (major + 9) % 12, mode };
+});
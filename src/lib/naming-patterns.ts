@@ -0,0 +1,141 @@
+import type { TagEdit } from "@/lib/tag-editing";
+import { mergeTags } from "@/lib/track-tags";
+import type { Track, TrackTags } from "@/lib/types";
+
+export type NamingPatterns = {
+  /** Matched against the file name without its extension, e.g. `%track% - %artist% - %title%`. */
+  file: string[];
+  /** Matched against the innermost folders of the path, e.g. `%artist%/%album%/`. */
+  folder: string[];
+};
+
+// Tried in order; the first pattern that matches wins.
+export const DEFAULT_NAMING_PATTERNS: NamingPatterns = {
+  file: [
+    "%track% - %artist% - %title%",
+    "%disc%-%track% %title%",
+    "%track% - %title%",
+    "%track%. %title%",
+    "%track% %title%",
+    "%artist% - %title%",
+  ],
+  folder: [
+    "%artist% - %album% (%year%)/",
+    "%artist% - %album%/",
+    "%artist%/%album% (%year%)/CD%disc%/",
+    "%artist%/%album%/CD%disc%/",
+    "%artist%/%album% (%year%)/",
+    "%artist%/%album%/",
+  ],
+};
+
+type Placeholder = {
+  field?: keyof TrackTags;
+  expression: string;
+};
+
+const PLACEHOLDERS: Record<string, Placeholder> = {
+  track: { field: "trackNumber", expression: "(\\d+)" },
+  disc: { field: "discNumber", expression: "(\\d+)" },
+  year: { field: "year", expression: "(\\d{4})" },
+  artist: { field: "artist", expression: "(.+?)" },
+  albumartist: { field: "albumArtist", expression: "(.+?)" },
+  album: { field: "album", expression: "(.+?)" },
+  title: { field: "title", expression: "(.+?)" },
+  genre: { field: "genre", expression: "(.+?)" },
+  // Skips a part of the name, such as a catalogue number.
+  ignore: { expression: ".*?" },
+};
+
+export const PLACEHOLDER_NAMES = Object.keys(PLACEHOLDERS).map(name => `%${name}%`);
+
+const NUMBER_FIELDS: (keyof TrackTags)[] = ["trackNumber", "discNumber", "year"];
+
+const PLACEHOLDER_PATTERN = /%([a-z]+)%/gi;
+
+/** Lists the placeholders a pattern uses that aren't known, for pointing out typos. */
+export const unknownPlaceholders = (pattern: string) =>
+  [...pattern.matchAll(PLACEHOLDER_PATTERN)].map(match => match[0]).filter(name => !PLACEHOLDERS[name.slice(1, -1).toLowerCase()]);
+
+const escapeLiteral = (text: string) =>
+  text
+    .split(/\s+/)
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("\\s*");
+
+type CompiledSegment = {
+  expression: RegExp;
+  fields: (keyof TrackTags | undefined)[];
+};
+
+/** Turns one path segment of a pattern into an anchored, case-insensitive expression. */
+function compileSegment(segment: string): CompiledSegment {
+  const fields: (keyof TrackTags | undefined)[] = [];
+  let source = "";
+  let offset = 0;
+  for (const match of segment.matchAll(PLACEHOLDER_PATTERN)) {
+    const placeholder = PLACEHOLDERS[match[1].toLowerCase()];
+    source += escapeLiteral(segment.slice(offset, match.index));
+    offset = match.index + match[0].length;
+    if (!placeholder) {
+      source += escapeLiteral(match[0]);
+      continue;
+    }
+    source += placeholder.expression;
+    if (placeholder.field) fields.push(placeholder.field);
+  }
+  source += escapeLiteral(segment.slice(offset));
+  return { expression: new RegExp(`^\\s*${source}\\s*$`, "i"), fields };
+}
+
+/** Matches a pattern's segments against the last segments of a path, or returns null. */
+function matchPattern(pattern: string, segments: string[]): TrackTags | null {
+  const patternSegments = pattern.replace(/\/+$/, "").split("/");
+  if (patternSegments.length > segments.length) return null;
+
+  const tags: TrackTags = {};
+  const pathSegments = segments.slice(segments.length - patternSegments.length);
+  for (let i = 0; i < patternSegments.length; i++) {
+    const { expression, fields } = compileSegment(patternSegments[i]);
+    const match = expression.exec(pathSegments[i]);
+    if (!match) return null;
+    fields.forEach((field, index) => {
+      const value = match[index + 1].trim();
+      if (!value) return;
+      (tags as Record<string, unknown>)[field] = NUMBER_FIELDS.includes(field) ? Number(value) || undefined : value;
+    });
+  }
+  return tags;
+}
+
+function firstMatch(patterns: string[], segments: string[]) {
+  for (const pattern of patterns) {
+    const tags = pattern.trim() ? matchPattern(pattern.trim(), segments) : null;
+    if (tags) return tags;
+  }
+  return null;
+}
+
+/**
+ * Reads tags out of a track's path: the first file pattern that matches
+ * the file name and the first folder pattern that matches the folders
+ * above it. What the file name says wins over its folders. Underscores
+ * count as spaces, as rips often use them instead.
+ */
+export function inferTagsFromPath(path: string, patterns: NamingPatterns): TrackTags {
+  const folders = path.replace(/_/g, " ").split("/");
+  const fileName = folders.pop().replace(/\.[^.]+$/, "");
+  return mergeTags(firstMatch(patterns.file, [...folders, fileName]), firstMatch(patterns.folder, folders));
+}
+
+/**
+ * The inferred tags a track is missing. Tracks cut from a file by a CUE
+ * sheet are left out, since the sheet already named them.
+ */
+export function fillFromPath(track: Track, patterns: NamingPatterns): TagEdit {
+  if (track.start !== undefined) return {};
+  const inferred = inferTagsFromPath(track.path, patterns);
+  return Object.fromEntries(
+    Object.entries(inferred).filter(([field]) => track.tags[field as keyof TrackTags] === undefined),
+  );
+}
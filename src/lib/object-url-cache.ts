@@ -0,0 +1,74 @@
+type CacheEntry = {
+  url: string;
+  size: number;
+};
+
+type ObjectUrlCacheOptions = {
+  maxEntries: number;
+  maxBytes: number;
+  /** The most recently used entries are never evicted, whatever their size. */
+  minEntries?: number;
+};
+
+/**
+ * Least-recently-used cache of object URLs. Evicted URLs are revoked so the
+ * blobs behind them can be garbage collected.
+ */
+export class ObjectUrlCache {
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<string>>();
+  private totalBytes = 0;
+
+  constructor(private options: ObjectUrlCacheOptions) {}
+
+  get(key: string, load: () => Promise<Blob>): Promise<string> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return Promise.resolve(cached.url);
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const promise = load()
+      .then(blob => {
+        const entry = { url: URL.createObjectURL(blob), size: blob.size };
+        this.entries.set(key, entry);
+        this.totalBytes += entry.size;
+        this.evict();
+        return entry.url;
+      })
+      .finally(() => this.pending.delete(key));
+    this.pending.set(key, promise);
+    return promise;
+  }
+
+  has(key: string) {
+    return this.entries.has(key);
+  }
+
+  delete(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    URL.revokeObjectURL(entry.url);
+    this.entries.delete(key);
+    this.totalBytes -= entry.size;
+  }
+
+  clear() {
+    this.entries.forEach(entry => URL.revokeObjectURL(entry.url));
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  private evict() {
+    const { maxEntries, maxBytes, minEntries = 2 } = this.options;
+    for (const key of this.entries.keys()) {
+      const overBudget = this.entries.size > maxEntries || this.totalBytes > maxBytes;
+      if (!overBudget || this.entries.size <= minEntries) break;
+      this.delete(key);
+    }
+  }
+}
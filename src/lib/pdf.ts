@@ -0,0 +1,12 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+/**
+ * Opens a PDF with pdf.js, which is only loaded the first time a booklet
+ * is viewed: it is several times the size of the rest of the player.
+ */
+export async function openPdf(blob: Blob): Promise<PDFDocumentProxy> {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  return pdfjs.getDocument({ data: new Uint8Array(await blob.arrayBuffer()) }).promise;
+}
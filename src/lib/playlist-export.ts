@@ -0,0 +1,41 @@
+import JSZip from "jszip";
+import { basename } from "@/lib/folder-tree";
+import type { Playlist, Track } from "@/lib/types";
+
+/** Where a track's file sits; tracks cut from one file by a CUE sheet add `#<number>` to its path. */
+export const sourcePath = (track: Track) => (track.start === undefined ? track.path : track.path.replace(/#\d+$/, ""));
+
+/** Hands a blob to the browser as a download. */
+export function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // The download has taken its own reference by the time the click returns.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export async function downloadTrack(track: Track) {
+  saveBlob(await track.load(), basename(sourcePath(track)));
+}
+
+/**
+ * Packs a playlist's files, as they are now, and its attachments into a
+ * ZIP under their original paths. Audio is stored rather than deflated,
+ * since it hardly compresses.
+ */
+export async function exportPlaylist(playlist: Playlist): Promise<Blob> {
+  const zip = new JSZip();
+  const added = new Set<string>();
+  for (const track of playlist.tracks) {
+    const path = sourcePath(track);
+    if (added.has(path)) continue;
+    added.add(path);
+    zip.file(path, await track.load(), { compression: "STORE" });
+  }
+  for (const attachment of playlist.attachments) {
+    zip.file(attachment.path, attachment.blob, { compression: "DEFLATE" });
+  }
+  return zip.generateAsync({ type: "blob" });
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { parsePlaylistFile, resolvePlaylistEntries } from "@/lib/playlist-files";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe("parsePlaylistFile", () => {
+  it("reads M3U locations with their EXTINF titles", () => {
+    const playlist = parsePlaylistFile("list.m3u8", encode([
+      "#EXTM3U",
+      "#EXTINF:215,Artist - First",
+      "01 First.flac",
+      "",
+      "#EXTINF:-1,",
+      "02 Second.flac\r",
+      "03 Third.flac",
+    ].join("\n")));
+
+    expect(playlist.entries).toEqual([
+      { location: "01 First.flac", title: "Artist - First" },
+      { location: "02 Second.flac", title: undefined },
+      { location: "03 Third.flac", title: undefined },
+    ]);
+  });
+
+  it("orders PLS entries by number and drops titles without a file", () => {
+    const playlist = parsePlaylistFile("list.PLS", encode([
+      "[playlist]",
+      "File2=b.mp3",
+      "Title2=B",
+      "file1 = a.mp3",
+      "Title3=Orphan",
+      "NumberOfEntries=2",
+    ].join("\r\n")));
+
+    expect(playlist.entries).toEqual([
+      { location: "a.mp3" },
+      { location: "b.mp3", title: "B" },
+    ]);
+  });
+
+  it("reads XSPF tracks and the playlist title, decoding entities", () => {
+    const playlist = parsePlaylistFile("list.xspf", encode(`<?xml version="1.0" encoding="UTF-8"?>
+<playlist version="1" xmlns="http://xspf.org/ns/0/">
+  <title>Rock &amp; Roll</title>
+  <trackList>
+    <track><location>file:///music/A%20B.flac</location><title>A &#x26; B</title></track>
+    <track><title>No location</title></track>
+    <track><location><![CDATA[c&d.flac]]></location></track>
+  </trackList>
+</playlist>`));
+
+    expect(playlist.title).toBe("Rock & Roll");
+    expect(playlist.entries).toEqual([
+      { location: "file:///music/A%20B.flac", title: "A & B" },
+      { location: "c&d.flac", title: undefined },
+    ]);
+  });
+});
+
+describe("resolvePlaylistEntries", () => {
+  const items = new Map([
+    ["Album/01 First.flac", "first"],
+    ["Album/Sub/02 Second.flac", "second"],
+    ["Other/03 Café.flac", "third"],
+  ]);
+
+  it("resolves relative, parent and percent-encoded locations against the playlist's folder", () => {
+    const { resolved, unresolved } = resolvePlaylistEntries(
+      "Album/Sub/list.m3u",
+      [
+        { location: "../01%20First.flac" },
+        { location: "./02 second.FLAC" },
+        { location: "..\\..\\Other\\03 Cafe\u0301.flac" },
+      ],
+      items,
+    );
+    expect(resolved).toEqual(["first", "second", "third"]);
+    expect(unresolved).toEqual([]);
+  });
+
+  it("matches absolute paths by their longest suffix and skips remote URLs", () => {
+    const { resolved, unresolved } = resolvePlaylistEntries(
+      "list.m3u",
+      [
+        { location: "C:\\Users\\me\\Music\\Album\\01 First.flac" },
+        { location: "file:///home/me/Album/Sub/02%20Second.flac" },
+        { location: "http://example.com/Album/01 First.flac" },
+        { location: "missing.flac" },
+      ],
+      items,
+    );
+    expect(resolved).toEqual(["first", "second"]);
+    expect(unresolved).toEqual(["http://example.com/Album/01 First.flac", "missing.flac"]);
+  });
+});
@@ -0,0 +1,157 @@
+import { decodeText } from "@/lib/charset";
+import { dirname } from "@/lib/folder-tree";
+
+export type PlaylistFileEntry = {
+  location: string;
+  title?: string;
+};
+
+export type PlaylistFile = {
+  title?: string;
+  entries: PlaylistFileEntry[];
+};
+
+const PLAYLIST_EXTENSIONS = [".m3u", ".m3u8", ".pls", ".xspf"];
+
+export const isPlaylistPath = (path: string) =>
+  PLAYLIST_EXTENSIONS.some(ext => path.toLowerCase().endsWith(ext));
+
+const splitLines = (text: string) =>
+  text.split(/\r\n|\r|\n/).map(line => line.trim()).filter(Boolean);
+
+function parseM3u(text: string): PlaylistFile {
+  const entries: PlaylistFileEntry[] = [];
+  let pendingTitle: string | undefined;
+
+  for (const line of splitLines(text)) {
+    if (line.startsWith("#EXTINF:")) {
+      const comma = line.indexOf(",");
+      pendingTitle = comma === -1 ? undefined : line.slice(comma + 1).trim() || undefined;
+    } else if (!line.startsWith("#")) {
+      entries.push({ location: line, title: pendingTitle });
+      pendingTitle = undefined;
+    }
+  }
+  return { entries };
+}
+
+function parsePls(text: string): PlaylistFile {
+  const files = new Map<number, PlaylistFileEntry>();
+
+  for (const line of splitLines(text)) {
+    const match = /^(File|Title)(\d+)\s*=\s*(.*)$/i.exec(line);
+    if (!match) continue;
+    const index = parseInt(match[2], 10);
+    const entry = files.get(index) ?? { location: "" };
+    if (match[1].toLowerCase() === "file") entry.location = match[3];
+    else entry.title = match[3];
+    files.set(index, entry);
+  }
+
+  const entries = Array.from(files.keys())
+    .sort((a, b) => a - b)
+    .map(index => files.get(index))
+    .filter(entry => entry.location);
+  return { entries };
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+const decodeXml = (text: string) =>
+  text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+      if (name[0] !== "#") return XML_ENTITIES[name] ?? entity;
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    })
+    .trim();
+
+const xmlElement = (xml: string, tag: string) => {
+  const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i").exec(xml);
+  return match ? decodeXml(match[1]) : undefined;
+};
+
+// XSPF is simple enough to read without an XML parser, which keeps this
+// module usable off the main thread where DOMParser doesn't exist.
+function parseXspf(text: string): PlaylistFile {
+  const trackList = /<trackList[^>]*>([\s\S]*?)<\/trackList>/i.exec(text)?.[1] ?? "";
+  const entries = Array.from(trackList.matchAll(/<track(?:\s[^>]*)?>([\s\S]*?)<\/track>/gi))
+    .map(([, track]) => ({ location: xmlElement(track, "location"), title: xmlElement(track, "title") }))
+    .filter(entry => entry.location);
+  const title = xmlElement(text.replace(/<trackList[\s\S]*<\/trackList>/i, ""), "title");
+  return { title, entries };
+}
+
+export function parsePlaylistFile(path: string, bytes: Uint8Array): PlaylistFile {
+  const text = decodeText(bytes);
+  const lowerPath = path.toLowerCase();
+  if (lowerPath.endsWith(".pls")) return parsePls(text);
+  if (lowerPath.endsWith(".xspf")) return parseXspf(text);
+  return parseM3u(text);
+}
+
+const normalizeKey = (path: string) => path.normalize("NFC").toLowerCase();
+
+function normalizeLocation(location: string): string | null {
+  let path = location;
+  if (/^[a-z][a-z0-9+.-]+:\/\//i.test(path)) {
+    if (!path.toLowerCase().startsWith("file://")) return null;
+    path = path.replace(/^file:\/\/(localhost)?/i, "");
+  }
+  if (/%[0-9a-f]{2}/i.test(path)) {
+    try {
+      path = decodeURIComponent(path);
+    } catch {
+      // Not actually percent-encoded; use it as written.
+    }
+  }
+  return path.replace(/\\/g, "/");
+}
+
+function joinPath(base: string, relative: string) {
+  const parts = base ? base.split("/") : [];
+  for (const part of relative.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  }
+  return parts.join("/");
+}
+
+/**
+ * Matches playlist entries against the paths in an archive. Relative
+ * locations are resolved against the playlist's folder; absolute ones (from
+ * the machine the playlist was made on) fall back to the longest matching
+ * path suffix.
+ */
+export function resolvePlaylistEntries<T>(
+  playlistPath: string,
+  entries: PlaylistFileEntry[],
+  items: Map<string, T>,
+): { resolved: T[]; unresolved: string[] } {
+  const byKey = new Map<string, T>();
+  items.forEach((item, path) => byKey.set(normalizeKey(path), item));
+
+  const resolved: T[] = [];
+  const unresolved: string[] = [];
+  const baseDir = dirname(playlistPath);
+
+  for (const { location } of entries) {
+    const path = normalizeLocation(location);
+    const isAbsolute = path !== null && (path.startsWith("/") || /^[a-z]:\//i.test(path));
+    let item = path !== null && !isAbsolute ? byKey.get(normalizeKey(joinPath(baseDir, path))) : undefined;
+
+    if (!item && path !== null) {
+      const parts = path.split("/").filter(Boolean);
+      for (let start = 0; start < parts.length && !item; start++) {
+        item = byKey.get(normalizeKey(joinPath(baseDir, parts.slice(start).join("/"))))
+          ?? byKey.get(normalizeKey(parts.slice(start).join("/")));
+      }
+    }
+
+    if (item) resolved.push(item);
+    else unresolved.push(location);
+  }
+
+  return { resolved, unresolved };
+}
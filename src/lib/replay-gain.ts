@@ -0,0 +1,111 @@
+import { dirname } from "@/lib/folder-tree";
+import type { Loudness } from "@/lib/loudness";
+import type { ReplayGain, Track } from "@/lib/types";
+
+export type ReplayGainMode = "off" | "track" | "album";
+
+export type ReplayGainSettings = {
+  mode: ReplayGainMode;
+};
+
+export const DEFAULT_REPLAY_GAIN_SETTINGS: ReplayGainSettings = { mode: "album" };
+
+/** ReplayGain 2.0 brings everything to -18 LUFS. */
+const REFERENCE_LOUDNESS = -18;
+
+// Decoding holds the whole file in memory as 32-bit samples at 48 kHz,
+// about 23 MB a minute for stereo, so longer files are left alone.
+const MAX_ANALYSIS_SECONDS = 20 * 60;
+
+/**
+ * Whether the player should measure a track itself: its tags have no
+ * track gain, and it is a whole file of a length that can be decoded.
+ * Tracks cut from a file by a CUE sheet rely on the sheet or the file's
+ * tags, since measuring one means decoding the whole album.
+ */
+export const needsLoudnessAnalysis = (track: Track) =>
+  track.replayGain?.trackGain === undefined &&
+  track.start === undefined &&
+  track.duration !== undefined &&
+  track.duration <= MAX_ANALYSIS_SECONDS;
+
+export const loudnessToReplayGain = ({ integrated, truePeak }: Loudness): ReplayGain => ({
+  // Silence has no loudness to correct.
+  trackGain: isFinite(integrated) ? REFERENCE_LOUDNESS - integrated : 0,
+  trackPeak: truePeak,
+});
+
+/**
+ * The tracks of a playlist that belong to the same album as `track`: the
+ * same album tag and album artist, or, for untagged files, the same folder.
+ */
+export function albumTracks(tracks: Track[], track: Track): Track[] {
+  const { album, albumArtist } = track.tags;
+  if (!album) return tracks.filter(other => !other.tags.album && dirname(other.path) === dirname(track.path));
+  return tracks.filter(other => other.tags.album === album && other.tags.albumArtist === albumArtist);
+}
+
+/**
+ * An album's gain: the one its tags give, or else one combined from the
+ * track gains once every track has one, averaging their loudness by
+ * energy and length. That is close to measuring the album as a whole.
+ */
+export function albumReplayGain(album: Track[]): Pick<ReplayGain, "albumGain" | "albumPeak"> {
+  const tagged = album.find(track => track.replayGain?.albumGain !== undefined);
+  if (tagged) return { albumGain: tagged.replayGain.albumGain, albumPeak: tagged.replayGain.albumPeak };
+  if (album.length === 0 || album.some(track => track.replayGain?.trackGain === undefined)) return {};
+
+  let energy = 0;
+  let length = 0;
+  for (const track of album) {
+    const seconds = track.duration ?? 1;
+    energy += seconds * 10 ** ((REFERENCE_LOUDNESS - track.replayGain.trackGain) / 10);
+    length += seconds;
+  }
+  const peaks = album.map(track => track.replayGain.trackPeak);
+  return {
+    albumGain: REFERENCE_LOUDNESS - 10 * Math.log10(energy / length),
+    albumPeak: peaks.some(peak => peak === undefined) ? undefined : Math.max(...peaks),
+  };
+}
+
+/**
+ * The volume factor to play a track at. Album mode falls back to the track
+ * gain until the album's is known, and track mode to the album gain when
+ * that is all there is. The gain is lowered as far as needed to keep the
+ * peak from clipping.
+ */
+export function playbackGain(track: Track, album: Track[], { mode }: ReplayGainSettings): number {
+  if (mode === "off") return 1;
+  const fromTrack = { gain: track.replayGain?.trackGain, peak: track.replayGain?.trackPeak };
+  const { albumGain, albumPeak } = albumReplayGain(album);
+  const fromAlbum = { gain: albumGain, peak: albumPeak };
+  const [preferred, fallback] = mode === "album" ? [fromAlbum, fromTrack] : [fromTrack, fromAlbum];
+  const { gain, peak } = preferred.gain !== undefined ? preferred : fallback;
+  if (gain === undefined) return 1;
+
+  const factor = 10 ** (gain / 20);
+  return peak ? Math.min(factor, 1 / peak) : factor;
+}
+
+const levellingNodes = new WeakMap<HTMLMediaElement, GainNode>();
+
+/**
+ * The gain node an audio element plays through, routing it into Web Audio
+ * the first time. From then on the element is only heard while the context
+ * runs, so this also resumes it.
+ */
+export function levellingGain(audio: HTMLMediaElement): GainNode {
+  let node = levellingNodes.get(audio);
+  if (!node) {
+    const context = new AudioContext();
+    node = context.createGain();
+    context.createMediaElementSource(audio).connect(node).connect(context.destination);
+    levellingNodes.set(audio, node);
+  }
+  const context = node.context as AudioContext;
+  if (context.state === "suspended") context.resume().catch(error => console.warn("Could not start audio output:", error));
+  return node;
+}
+
+export const isLevelling = (audio: HTMLMediaElement) => levellingNodes.has(audio);
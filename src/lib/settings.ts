@@ -0,0 +1,19 @@
+const STORAGE_PREFIX = "music-player:";
+
+/** Reads a persisted setting, filling in any fields missing from older saved versions. */
+export function loadSetting<T extends object>(key: string, defaults: T): T {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + key);
+    return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+  } catch {
+    return defaults;
+  }
+}
+
+export function saveSetting<T extends object>(key: string, value: T) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Error saving setting '${key}':`, error);
+  }
+}
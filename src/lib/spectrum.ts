@@ -0,0 +1,73 @@
+// The loops hand the main thread back now and then, so playback and the
+// page stay responsive while a track is analysed.
+const YIELD_INTERVAL = 1 << 16;
+const yieldToPage = () => new Promise(resolve => setTimeout(resolve));
+
+export const powerOfTwoAtLeast = (value: number) => 2 ** Math.ceil(Math.log2(value));
+
+/** In-place radix-2 FFT of a power-of-two length. */
+function fft(real: Float64Array, imaginary: Float64Array) {
+  const size = real.length;
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imaginary[i], imaginary[j]] = [imaginary[j], imaginary[i]];
+    }
+  }
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    const stepReal = Math.cos(angle);
+    const stepImaginary = Math.sin(angle);
+    for (let start = 0; start < size; start += length) {
+      let twiddleReal = 1;
+      let twiddleImaginary = 0;
+      for (let k = 0; k < length / 2; k++) {
+        const even = start + k;
+        const odd = even + length / 2;
+        const oddReal = real[odd] * twiddleReal - imaginary[odd] * twiddleImaginary;
+        const oddImaginary = real[odd] * twiddleImaginary + imaginary[odd] * twiddleReal;
+        real[odd] = real[even] - oddReal;
+        imaginary[odd] = imaginary[even] - oddImaginary;
+        real[even] += oddReal;
+        imaginary[even] += oddImaginary;
+        const nextReal = twiddleReal * stepReal - twiddleImaginary * stepImaginary;
+        twiddleImaginary = twiddleReal * stepImaginary + twiddleImaginary * stepReal;
+        twiddleReal = nextReal;
+      }
+    }
+  }
+}
+
+/**
+ * Calls `onFrame` with the magnitude spectrum of each Hann-windowed frame of
+ * `samples`, `frameSize / 2 + 1` bins from 0 Hz up to half the sample rate.
+ * The array is reused from one frame to the next.
+ */
+export async function forEachSpectrum(
+  samples: Float32Array,
+  frameSize: number,
+  hopSize: number,
+  onFrame: (magnitudes: Float64Array) => void,
+) {
+  const window = Float64Array.from({ length: frameSize }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize));
+  const real = new Float64Array(frameSize);
+  const imaginary = new Float64Array(frameSize);
+  const magnitudes = new Float64Array(frameSize / 2 + 1);
+  let sinceYield = 0;
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    for (let i = 0; i < frameSize; i++) real[i] = samples[start + i] * window[i];
+    imaginary.fill(0);
+    fft(real, imaginary);
+    for (let bin = 0; bin < magnitudes.length; bin++) magnitudes[bin] = Math.sqrt(real[bin] ** 2 + imaginary[bin] ** 2);
+    onFrame(magnitudes);
+
+    sinceYield += frameSize;
+    if (sinceYield >= YIELD_INTERVAL) {
+      sinceYield = 0;
+      await yieldToPage();
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { storeSource } from "@/lib/content-store";
+import { TAGGABLE_CONTAINERS, writeEmbeddedTags } from "@/lib/metadata/tag-writer";
+import { Sha256 } from "@/lib/sha256";
+import type { Track, TrackTags } from "@/lib/types";
+
+/** Fields to change; a field that is present but undefined is cleared. */
+export type TagEdit = Partial<TrackTags>;
+
+export type TrackEdit = {
+  track: Track;
+  edit: TagEdit;
+};
+
+export type RetaggedTrack = {
+  track: Track;
+  /** False when the edit only lives in the player, because the file can't carry it. */
+  written: boolean;
+};
+
+/**
+ * Whether edits can go into the track's file. Tracks cut from a larger file
+ * by a CUE sheet share that file's tags, so theirs stay in the player.
+ */
+export const canWriteTags = (track: Track) =>
+  track.start === undefined && TAGGABLE_CONTAINERS.includes(track.format.container);
+
+/**
+ * Applies an edit to a track and writes it into a copy of the track's file,
+ * so that downloads and exports carry it. The copy is stored as a source of
+ * its own, found again by its hash like any imported file; the audio itself
+ * doesn't change, so anything playing the track carries on.
+ */
+export async function retagTrack(track: Track, edit: TagEdit): Promise<RetaggedTrack> {
+  const tags: TrackTags = { ...track.tags, ...edit };
+  if (!canWriteTags(track)) return { track: { ...track, tags }, written: false };
+
+  const bytes = new Uint8Array(await (await track.load()).arrayBuffer());
+  const written = writeEmbeddedTags(track.format, bytes, tags);
+  if (!written) return { track: { ...track, tags }, written: false };
+
+  const blob = new Blob([written], { type: track.format.mimeType });
+  const sha256 = new Sha256();
+  sha256.update(written);
+  const hash = sha256.hex();
+  const source = storeSource(hash, () => Promise.resolve(blob));
+  return {
+    track: {
+      ...track,
+      tags,
+      hash,
+      size: blob.size,
+      sourceId: source.sourceId,
+      load: source.load,
+    },
+    written: true,
+  };
+}
@@ -0,0 +1,97 @@
+import { forEachSpectrum, powerOfTwoAtLeast } from "@/lib/spectrum";
+
+// Frames of about 46 ms, taken every 12 ms or so at the analysis rate.
+const FRAME_DURATION = 0.046;
+const HOPS_PER_FRAME = 4;
+
+const MIN_BPM = 50;
+const MAX_BPM = 220;
+
+// Beats are most often heard around 120 BPM, so candidate tempos are
+// weighted by how far they are from it, in octaves.
+const PREFERRED_BPM = 120;
+const PREFERENCE_OCTAVES = 1;
+
+/** How many beats apart the autocorrelation is read to pin the period down. */
+const PRECISION_MULTIPLES = 4;
+
+/** Seconds the onset envelope's moving average spans. */
+const AVERAGE_SPAN = 0.5;
+
+/**
+ * How much new energy each frame brings: the spectral flux of the log
+ * magnitudes, with the local average taken off so only onsets stand out.
+ */
+async function onsetEnvelope(samples: Float32Array, frameSize: number, hopSize: number, frameRate: number) {
+  const flux: number[] = [];
+  let previous: Float64Array | null = null;
+  await forEachSpectrum(samples, frameSize, hopSize, magnitudes => {
+    const current = magnitudes.map(magnitude => Math.log1p(100 * magnitude));
+    let sum = 0;
+    if (previous) for (let bin = 0; bin < current.length; bin++) sum += Math.max(0, current[bin] - previous[bin]);
+    flux.push(sum);
+    previous = current;
+  });
+
+  const radius = Math.round((AVERAGE_SPAN * frameRate) / 2);
+  const prefix = new Float64Array(flux.length + 1);
+  flux.forEach((value, i) => (prefix[i + 1] = prefix[i] + value));
+  return Float64Array.from(flux, (value, i) => {
+    const from = Math.max(0, i - radius);
+    const to = Math.min(flux.length, i + radius + 1);
+    return Math.max(0, value - (prefix[to] - prefix[from]) / (to - from));
+  });
+}
+
+const autocorrelation = (envelope: Float64Array, lag: number) => {
+  let sum = 0;
+  for (let i = 0; i + lag < envelope.length; i++) sum += envelope[i] * envelope[i + lag];
+  return sum / (envelope.length - lag);
+};
+
+/** The highest autocorrelation within `radius` of a lag, placed between frames by a parabola through it and its neighbours. */
+function peakLag(envelope: Float64Array, around: number, radius: number) {
+  let lag = around;
+  for (let candidate = around - radius; candidate <= around + radius; candidate++) {
+    if (autocorrelation(envelope, candidate) > autocorrelation(envelope, lag)) lag = candidate;
+  }
+  const [before, peak, after] = [lag - 1, lag, lag + 1].map(neighbour => autocorrelation(envelope, neighbour));
+  const curvature = before - 2 * peak + after;
+  return lag + (curvature < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (before - after)) / curvature)) : 0);
+}
+
+/**
+ * Estimates a tempo in BPM from the autocorrelation of the onset envelope,
+ * or undefined when nothing in the audio repeats. The result may be off by
+ * an octave for music whose beat is felt at half or double speed.
+ */
+export async function estimateTempo(samples: Float32Array, sampleRate: number): Promise<number | undefined> {
+  const frameSize = powerOfTwoAtLeast(FRAME_DURATION * sampleRate);
+  const hopSize = frameSize / HOPS_PER_FRAME;
+  const frameRate = sampleRate / hopSize;
+  const envelope = await onsetEnvelope(samples, frameSize, hopSize, frameRate);
+
+  const minLag = Math.floor((60 * frameRate) / MAX_BPM);
+  const maxLag = Math.ceil((60 * frameRate) / MIN_BPM);
+  if (envelope.length < 2 * PRECISION_MULTIPLES * maxLag) return undefined;
+
+  let best = 0;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const octaves = Math.log2((60 * frameRate) / lag / PREFERRED_BPM) / PREFERENCE_OCTAVES;
+    const score = autocorrelation(envelope, lag) * Math.exp(-0.5 * octaves * octaves);
+    if (score > bestScore) {
+      best = lag;
+      bestScore = score;
+    }
+  }
+  if (best === 0) return undefined;
+
+  // A frame is a sizeable step at fast tempos, so the beat period is also
+  // read off the peaks at several beats' distance and averaged.
+  let period = 0;
+  for (let beats = 1; beats <= PRECISION_MULTIPLES; beats++) {
+    period += peakLag(envelope, best * beats, Math.ceil(beats / 2)) / beats;
+  }
+  return Math.round((600 * frameRate * PRECISION_MULTIPLES) / period) / 10;
+}
@@ -0,0 +1,24 @@
+import type { Track } from "@/lib/types";
+
+/** Formats seconds as `m:ss`, or `h:mm:ss` from an hour up. */
+export const formatTime = (seconds: number) => {
+  if (isNaN(seconds)) return "0:00";
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainingSeconds = Math.floor(seconds % 60).toString().padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, "0")}:${remainingSeconds}`
+    : `${minutes}:${remainingSeconds}`;
+};
+
+/** Running time of a list of tracks, and whether every track's length was known. */
+export const totalDuration = (tracks: Track[]) => ({
+  seconds: tracks.reduce((total, track) => total + (track.duration ?? 0), 0),
+  complete: tracks.every(track => track.duration !== undefined),
+});
+
+/** `1:02:03`, or `1:02:03+` when some tracks' lengths are unknown. */
+export const formatTotalDuration = (tracks: Track[]) => {
+  const { seconds, complete } = totalDuration(tracks);
+  return `${formatTime(seconds)}${complete ? "" : "+"}`;
+};
@@ -0,0 +1,10 @@
+import { ObjectUrlCache } from "@/lib/object-url-cache";
+import type { Track } from "@/lib/types";
+
+// Holds the playing track, the preloaded next one and a little history.
+export const trackUrlCache = new ObjectUrlCache({
+  maxEntries: 4,
+  maxBytes: 1024 * 1024 * 1024,
+});
+
+export const getTrackUrl = (track: Track) => trackUrlCache.get(track.sourceId, track.load);
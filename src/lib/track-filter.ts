@@ -0,0 +1,56 @@
+import { camelotKey, camelotNumber } from "@/lib/musical-key";
+import type { Track } from "@/lib/types";
+
+export type TrackOrder = "folder" | "bpm" | "key";
+
+export type TrackFilter = {
+  order: TrackOrder;
+  /** `128`, or a range such as `120-130`; empty for any tempo. */
+  bpm: string;
+  /** A Camelot key such as `8A`; empty for any key. */
+  key: string;
+};
+
+export const DEFAULT_TRACK_FILTER: TrackFilter = { order: "folder", bpm: "", key: "" };
+
+export const isFiltering = ({ order, bpm, key }: TrackFilter) => order !== "folder" || bpm.trim() !== "" || key !== "";
+
+/**
+ * Reads `128` or `120-130` as the tempos shown rounded to those numbers,
+ * 127.5 up to 128.5 for `128`; null when the text is neither.
+ */
+export function parseBpmRange(text: string): { min: number; max: number } | null {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(?:[-–]\s*(\d+(?:\.\d+)?))?\s*$/.exec(text);
+  if (!match) return null;
+  const from = Number(match[1]);
+  const to = match[2] === undefined ? from : Number(match[2]);
+  return { min: Math.min(from, to) - 0.5, max: Math.max(from, to) + 0.5 };
+}
+
+/** Ascending, with missing values last. */
+const compareValues = (a: number | undefined, b: number | undefined) =>
+  a === b ? 0 : a === undefined ? 1 : b === undefined ? -1 : a - b;
+
+/** Orders by Camelot key, minor before major at each number, so neighbours on the wheel sit together. */
+const keyPosition = ({ key }: Track) => key && camelotNumber(key) * 2 + (key.mode === "major" ? 1 : 0);
+
+/**
+ * The tracks anywhere inside a folder that pass the filter, in its order.
+ * Tracks not yet analysed match no tempo or key and sort last.
+ */
+export function filterTracks(tracks: Track[], folderPath: string, filter: TrackFilter) {
+  const prefix = folderPath ? `${folderPath}/` : "";
+  const bpmRange = parseBpmRange(filter.bpm);
+  const matches = tracks
+    .map((track, index) => ({ track, index }))
+    .filter(({ track }) =>
+      track.path.startsWith(prefix) &&
+      (!bpmRange || (track.bpm !== undefined && track.bpm >= bpmRange.min && track.bpm < bpmRange.max)) &&
+      (!filter.key || (track.key !== undefined && camelotKey(track.key) === filter.key)));
+
+  if (filter.order === "bpm") matches.sort((a, b) => compareValues(a.track.bpm, b.track.bpm));
+  if (filter.order === "key") {
+    matches.sort((a, b) => compareValues(keyPosition(a.track), keyPosition(b.track)) || compareValues(a.track.bpm, b.track.bpm));
+  }
+  return matches;
+}
@@ -0,0 +1,46 @@
+import type { Track, TrackTags } from "@/lib/types";
+
+/** Parses `3` or `3/12`, the form of ID3 `TRCK`/`TPOS` and most other formats' track numbers. */
+export function parseNumberPair(value: string | undefined): { number?: number; total?: number } {
+  const match = /^\s*(\d+)\s*(?:\/\s*(\d+))?/.exec(value ?? "");
+  if (!match) return {};
+  const number = Number(match[1]);
+  const total = match[2] ? Number(match[2]) : undefined;
+  return { number: number > 0 ? number : undefined, total: total > 0 ? total : undefined };
+}
+
+/** Finds the year in dates such as `2003`, `2003-05-12` or `2003-05-12T10:00`. */
+export const parseYear = (value: string | undefined) => {
+  const match = /\b(\d{4})\b/.exec(value ?? "");
+  return match ? Number(match[1]) : undefined;
+};
+
+/** Combines tags read from several places; the first one to set a field wins. */
+export function mergeTags(...sources: (TrackTags | null | undefined)[]): TrackTags {
+  const merged: TrackTags = {};
+  for (const source of sources) {
+    if (!source) continue;
+    for (const [key, value] of Object.entries(source) as [keyof TrackTags, TrackTags[keyof TrackTags]][]) {
+      if (value !== undefined && value !== "" && merged[key] === undefined) (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+export const trackTitle = (track: Track) => track.tags.title || track.name;
+
+export const trackArtist = (track: Track) => track.tags.artist || track.tags.albumArtist;
+
+/** `Artist — Album (2003)`, leaving out whatever isn't tagged. */
+export const describeTrack = (track: Track) => {
+  const { album, year } = track.tags;
+  const albumText = album && year ? `${album} (${year})` : album;
+  return [trackArtist(track), albumText].filter(Boolean).join(" — ");
+};
+
+/** `Disc 2 of 3 · Jazz`, for the line under the now-playing title. */
+export const trackDetails = (track: Track) => {
+  const { discNumber, discTotal, genre } = track.tags;
+  const disc = discNumber && (discTotal ? `Disc ${discNumber} of ${discTotal}` : `Disc ${discNumber}`);
+  return [disc, genre].filter(Boolean).join(" · ");
+};
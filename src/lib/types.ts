@@ -0,0 +1,142 @@
+import type { AudioFormat } from "@/lib/audio-format";
+
+/** What a track's tags say about it; every field is optional because any of them may be missing. */
+export type TrackTags = {
+  title?: string;
+  artist?: string;
+  album?: string;
+  albumArtist?: string;
+  trackNumber?: number;
+  trackTotal?: number;
+  discNumber?: number;
+  discTotal?: number;
+  year?: number;
+  genre?: string;
+  comment?: string;
+};
+
+/** A named point in a track, such as a chapter of an audiobook. */
+export type Chapter = {
+  title: string;
+  /** Seconds from the start of the track. */
+  start: number;
+};
+
+/** Samples the encoder added before and after the audio, in iTunes' `iTunSMPB` form. */
+export type GaplessInfo = {
+  encoderDelay: number;
+  encoderPadding: number;
+  /** Samples of real audio, without the delay and padding. */
+  sampleCount: number;
+};
+
+/**
+ * Loudness normalisation in ReplayGain 2.0 terms: gains in dB that bring
+ * the track or its album to -18 LUFS, and peaks as sample values where 1
+ * is full scale.
+ */
+export type ReplayGain = {
+  trackGain?: number;
+  trackPeak?: number;
+  albumGain?: number;
+  albumPeak?: number;
+};
+
+/** A key as a tonic pitch class, 0 for C up to 11 for B, and its mode. */
+export type MusicalKey = {
+  tonic: number;
+  mode: "major" | "minor";
+};
+
+export type Track = {
+  id: string;
+  name: string;
+  /** Location inside the archive or dropped folder, e.g. `Artist/Album (CD1)/01.flac`. */
+  path: string;
+  /** Shared by every track cut from the same file, e.g. by a CUE sheet. */
+  sourceId: string;
+  /** SHA-256 of the source file's contents. */
+  hash?: string;
+  /** Offsets into the source file in seconds, for tracks that are only part of it. */
+  start?: number;
+  end?: number;
+  size: number;
+  format: AudioFormat;
+  tags: TrackTags;
+  /** Length in seconds as the file's headers give it; unknown for some containers. */
+  duration?: number;
+  chapters?: Chapter[];
+  gapless?: GaplessInfo;
+  /** From the file's tags, or measured by the player when they had none. */
+  replayGain?: ReplayGain;
+  /** Tempo and key, estimated by the player from the decoded audio. */
+  bpm?: number;
+  key?: MusicalKey;
+  /** Embedded cover art, or the cover image from the track's folder. */
+  artwork?: Blob;
+  /** Extracts the track's audio on demand; nothing is decoded at import time. */
+  load: () => Promise<Blob>;
+};
+
+/** A file that looked like audio but can't be played here. */
+export type UnsupportedFile = {
+  path: string;
+  reason: string;
+};
+
+export type AttachmentKind = "pdf" | "image" | "text";
+
+/** A booklet, scan or liner notes file that came with the music. */
+export type Attachment = {
+  path: string;
+  kind: AttachmentKind;
+  blob: Blob;
+};
+
+export type Playlist = {
+  /** Stays the same while an import streams tracks into the playlist and when it finishes. */
+  id: string;
+  name: string;
+  tracks: Track[];
+  unsupported: UnsupportedFile[];
+  /** Entries of a bundled playlist file that didn't match anything in the archive. */
+  missing: string[];
+  /** Booklets, scans and notes from the archive or folder, sorted by path. */
+  attachments: Attachment[];
+  /** The cover of the archive or folder as a whole, or of its first track that has one. */
+  artwork?: Blob;
+  /** Set on a playlist made to play one folder of another, so playing that folder again reuses it. */
+  folderOf?: { playlistId: string; folderPath: string };
+};
+
+export type QueuedTrack = {
+  playlistIndex: number;
+  trackIndex: number;
+};
+
+export const createPlaylist = (
+  name: string,
+  tracks: Track[],
+  details: Partial<Omit<Playlist, "name" | "tracks">> = {},
+): Playlist => ({
+  id: createPlaylistId(),
+  name,
+  tracks,
+  unsupported: [],
+  missing: [],
+  attachments: [],
+  ...details,
+});
+
+// Ids are handed out both by the page and by the import worker, so each
+// context numbers its own under a random prefix.
+const ID_PREFIX = Math.random().toString(36).slice(2, 8);
+let nextPlaylistId = 0;
+let nextTrackId = 0;
+let nextSourceId = 0;
+
+export const createPlaylistId = () => `playlist-${ID_PREFIX}-${++nextPlaylistId}`;
+
+export const createTrackId = () => `track-${ID_PREFIX}-${++nextTrackId}`;
+
+export const createSourceId = () => `source-${ID_PREFIX}-${++nextSourceId}`;
@@ -1,7 +1,6 @@
 "use client";
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import * as JSZip from 'jszip';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -9,32 +8,55 @@ import { Progress } from '@/components/ui/progress';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
-import { Play, Pause, SkipForward, SkipBack, Music, Upload, Loader2, Plus, X } from 'lucide-react';
+import { Play, Pause, SkipForward, SkipBack, Music, Upload, X, FileX, ClipboardList, Settings, Link, BookOpen, Download, Wand2 } from 'lucide-react';
 import { MadeWithDyad } from "@/components/made-with-dyad";
-import { cn } from '@/lib/utils';
-import { showSuccess } from '@/utils/toast';
-
-type Track = {
-  name: string;
-  url: string;
-};
-
-type Playlist = {
-  name: string;
-  tracks: Track[];
-};
-
-type QueuedTrack = {
-  playlistIndex: number;
-  trackIndex: number;
-};
-
-const formatTime = (seconds: number) => {
-  if (isNaN(seconds)) return "0:00";
-  const minutes = Math.floor(seconds / 60);
-  const remainingSeconds = Math.floor(seconds % 60);
-  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-};
+import { showError, showSuccess } from '@/utils/toast';
+import { ArtworkImage } from '@/components/artwork-image';
+import { BookletDialog } from '@/components/booklet-dialog';
+import { CharsetDialog, type CharsetPrompt } from '@/components/charset-dialog';
+import { ChapterList, ChapterMarkers } from '@/components/chapter-list';
+import { DropZone } from '@/components/drop-zone';
+import { DuplicateImportDialog } from '@/components/duplicate-import-dialog';
+import { FolderBrowser } from '@/components/folder-browser';
+import { ImportProgressPanel } from '@/components/import-progress-panel';
+import { ImportReportDialog } from '@/components/import-report-dialog';
+import { ImportSettingsDialog } from '@/components/import-settings-dialog';
+import { NamingPatternsDialog } from '@/components/naming-patterns-dialog';
+import { PasswordDialog, type PasswordPrompt } from '@/components/password-dialog';
+import { TagEditorDialog } from '@/components/tag-editor-dialog';
+import { UrlImportDialog } from '@/components/url-import-dialog';
+import { ARCHIVE_ACCEPT } from '@/lib/archive/open-archive';
+import { firstArtwork } from '@/lib/artwork';
+import { ATTACHMENT_ACCEPT } from '@/lib/attachments';
+import { addWithDuplicateChoice, findLibraryDuplicates, type DuplicateChoice, type DuplicateSummary } from '@/lib/duplicates';
+import { dirname, trackIndexesInFolder } from '@/lib/folder-tree';
+import { collectFileList, type SourceFile } from '@/lib/import/dropped-files';
+import { importWorker } from '@/lib/import/import-worker-client';
+import { DEFAULT_IMPORT_LIMITS, type ImportLimits } from '@/lib/import/import-limits';
+import type { ImportProgress } from '@/lib/import/import-progress';
+import { describeProblems, errorMessage, type ImportReport } from '@/lib/import/import-report';
+import { downloadFile } from '@/lib/import/url-download';
+import { relocateSelection, relocateTrack } from '@/lib/library';
+import { measureLoudness } from '@/lib/loudness';
+import { analyseMusic, describeTempoAndKey, needsMusicAnalysis, type MusicAnalysis } from '@/lib/music-analysis';
+import { DEFAULT_NAMING_PATTERNS, type NamingPatterns } from '@/lib/naming-patterns';
+import { downloadTrack, exportPlaylist, saveBlob } from '@/lib/playlist-export';
+import {
+  albumTracks,
+  DEFAULT_REPLAY_GAIN_SETTINGS,
+  isLevelling,
+  levellingGain,
+  loudnessToReplayGain,
+  needsLoudnessAnalysis,
+  playbackGain,
+  type ReplayGainMode,
+} from '@/lib/replay-gain';
+import { loadSetting, saveSetting } from '@/lib/settings';
+import { retagTrack, type TrackEdit } from '@/lib/tag-editing';
+import { formatTime, formatTotalDuration } from '@/lib/time';
+import { getTrackUrl, trackUrlCache } from '@/lib/track-cache';
+import { describeTrack, trackArtist, trackDetails, trackTitle } from '@/lib/track-tags';
+import { createPlaylist, type Playlist, type QueuedTrack, type ReplayGain, type Track } from '@/lib/types';
 
 const MusicPlayerPage = () => {
   const [playlists, setPlaylists] = useState<Playlist[]>([]);
@@ -44,70 +66,256 @@ const MusicPlayerPage = () => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [progress, setProgress] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [importStartedAt, setImportStartedAt] = useState(0);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [importLimits, setImportLimits] = useState(() => loadSetting('importLimits', DEFAULT_IMPORT_LIMITS));
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isUrlImportOpen, setIsUrlImportOpen] = useState(false);
+  const [isBookletOpen, setIsBookletOpen] = useState(false);
+  const [editingTracks, setEditingTracks] = useState<Track[] | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [namingPatterns, setNamingPatterns] = useState(() => loadSetting('namingPatterns', DEFAULT_NAMING_PATTERNS));
+  const [isNamingOpen, setIsNamingOpen] = useState(false);
+  const [replayGainSettings, setReplayGainSettings] = useState(() => loadSetting('replayGain', DEFAULT_REPLAY_GAIN_SETTINGS));
+  const [pendingImport, setPendingImport] = useState<{ playlists: Playlist[]; duplicates: DuplicateSummary[] } | null>(null);
+  const [passwordPrompt, setPasswordPrompt] = useState<PasswordPrompt | null>(null);
+  const [charsetPrompt, setCharsetPrompt] = useState<CharsetPrompt | null>(null);
   const [duration, setDuration] = useState(0);
   const [currentTime, setCurrentTime] = useState(0);
 
   const audioRef = useRef<HTMLAudioElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const playlistsRef = useRef(playlists);
-  playlistsRef.current = playlists;
+  const importAbortRef = useRef<AbortController | null>(null);
+  const keepCancelledImportRef = useRef(false);
+  const lastProgressUpdateRef = useRef(0);
+  const answerPasswordRef = useRef<((password: string | null) => void) | null>(null);
+  const answerCharsetRef = useRef<((charset: string | null) => void) | null>(null);
+  const loadedSourceIdRef = useRef<string | null>(null);
+  const loadedTrackIdRef = useRef<string | null>(null);
+  const endedTrackIdRef = useRef<string | null>(null);
 
   useEffect(() => {
-    return () => {
-      playlistsRef.current.forEach(playlist => {
-        playlist.tracks.forEach(track => URL.revokeObjectURL(track.url));
-      });
-    };
+    return () => trackUrlCache.clear();
   }, []);
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // Imports deliver tracks from a worker while the user keeps playing, so
+  // library changes work from the latest state rather than this render's.
+  const libraryRef = useRef({ playlists, queue, currentPlaylistIndex, currentTrackIndex });
+  libraryRef.current = { playlists, queue, currentPlaylistIndex, currentTrackIndex };
+
+  // Keeps the current track and the queue on the same tracks wherever they move to.
+  const updateLibrary = (update: (library: Playlist[]) => Playlist[]) => {
+    const previous = libraryRef.current;
+    const updatedPlaylists = update(previous.playlists);
+    const relocate = (position: QueuedTrack) => relocateTrack(previous.playlists, updatedPlaylists, position);
+
+    let current = previous.currentPlaylistIndex !== null && previous.currentTrackIndex !== null
+      ? relocateSelection(previous.playlists, updatedPlaylists, { playlistIndex: previous.currentPlaylistIndex, trackIndex: previous.currentTrackIndex })
+      : null;
+    if (!current && updatedPlaylists.length > 0) {
+      if (previous.currentPlaylistIndex !== null) setIsPlaying(false);
+      current = { playlistIndex: 0, trackIndex: 0 };
+    }
+    const updatedQueue = previous.queue.map(relocate).filter(Boolean);
 
+    libraryRef.current = {
+      playlists: updatedPlaylists,
+      queue: updatedQueue,
+      currentPlaylistIndex: current?.playlistIndex ?? null,
+      currentTrackIndex: current?.trackIndex ?? null,
+    };
+    setPlaylists(updatedPlaylists);
+    setQueue(updatedQueue);
+    setCurrentPlaylistIndex(current?.playlistIndex ?? null);
+    setCurrentTrackIndex(current?.trackIndex ?? null);
+  };
+
+  /** Replaces a track in every playlist it is in, such as once something about it has been measured. */
+  const updateTrack = (trackId: string, update: (track: Track) => Track) => {
+    updateLibrary(library => library.map(playlist => playlist.tracks.some(track => track.id === trackId)
+      ? { ...playlist, tracks: playlist.tracks.map(track => track.id === trackId ? update(track) : track) }
+      : playlist));
+  };
+
+  const resolveDuplicates = (choice: DuplicateChoice) => {
+    if (!pendingImport) return;
+    const incoming = pendingImport.playlists;
+    const incomingIds = new Set(incoming.map(playlist => playlist.id));
+    // Drop the playlists the import streamed into before adding the finished ones.
+    updateLibrary(library => addWithDuplicateChoice(choice, incoming, library.filter(playlist => !incomingIds.has(playlist.id))));
+    setPendingImport(null);
+  };
+
+  const requestPassword = (archiveName: string, retry: boolean) =>
+    new Promise<string | null>(resolve => {
+      answerPasswordRef.current = resolve;
+      setPasswordPrompt({ archiveName, retry });
+    });
+
+  const answerPassword = (password: string | null) => {
+    answerPasswordRef.current?.(password);
+    answerPasswordRef.current = null;
+    setPasswordPrompt(null);
+  };
+
+  const requestCharset = (archiveName: string, samples: Uint8Array[], guess: string) =>
+    new Promise<string | null>(resolve => {
+      answerCharsetRef.current = resolve;
+      setCharsetPrompt({ archiveName, samples, guess });
+    });
+
+  const answerCharset = (charset: string | null) => {
+    answerCharsetRef.current?.(charset);
+    answerCharsetRef.current = null;
+    setCharsetPrompt(null);
+  };
+
+  // Sources may have to be fetched first, which can be cancelled like the rest of the import.
+  const runImport = async (collectSources: (signal: AbortSignal) => Promise<SourceFile[]>) => {
+    const abortController = new AbortController();
+    importAbortRef.current = abortController;
+    // The worker declines any prompt a cancelled import left open; close it here too.
+    abortController.signal.addEventListener('abort', () => {
+      answerPassword(null);
+      answerCharset(null);
+    });
+    keepCancelledImportRef.current = false;
     setIsLoading(true);
+    setImportProgress(null);
+    setImportStartedAt(Date.now());
+
+    // Tracks show up in playlists of their own while the import runs; the
+    // finished playlists replace them at the end.
+    const streamedPlaylistIds = new Set<string>();
+    const withoutStreamed = (library: Playlist[]) => library.filter(playlist => !streamedPlaylistIds.has(playlist.id));
 
     try {
-      const zip = await JSZip.loadAsync(file);
-      const audioFiles: Track[] = [];
-      const audioExtensions = ['.mp3', '.wav', '.ogg', '.m4a', '.flac'];
-
-      const promises = Object.keys(zip.files).map(async (filename) => {
-        const zipEntry = zip.files[filename];
-        if (!zipEntry.dir && audioExtensions.some(ext => filename.toLowerCase().endsWith(ext))) {
-          const blob = await zipEntry.async('blob');
-          const url = URL.createObjectURL(blob);
-          audioFiles.push({ name: filename.split('/').pop() || filename, url });
-        }
+      const sources = await collectSources(abortController.signal);
+      const { playlists: importedPlaylists, aborted, report } = await importWorker.importFiles(sources, {
+        signal: abortController.signal,
+        limits: importLimits,
+        requestPassword,
+        requestCharset,
+        onUpdate: (progress) => {
+          const now = Date.now();
+          if (now - lastProgressUpdateRef.current < 100) return;
+          lastProgressUpdateRef.current = now;
+          setImportProgress(progress);
+        },
+        onTracks: (playlistId, playlistName, tracks) => {
+          streamedPlaylistIds.add(playlistId);
+          updateLibrary(library => library.some(playlist => playlist.id === playlistId)
+            ? library.map(playlist => playlist.id === playlistId
+              ? { ...playlist, tracks: [...playlist.tracks, ...tracks], artwork: playlist.artwork ?? firstArtwork(tracks) }
+              : playlist)
+            : [...library, createPlaylist(playlistName, tracks, { id: playlistId, artwork: firstArtwork(tracks) })]);
+        },
       });
+      const newPlaylists = aborted && !keepCancelledImportRef.current ? [] : importedPlaylists;
+
+      setImportReport(report);
+      const problems = aborted ? [] : describeProblems(report);
+      problems.forEach(showError);
+      if (problems.length > 0) {
+        setIsReportOpen(true);
+      }
 
-      await Promise.all(promises);
-
-      if (audioFiles.length > 0) {
-        const newPlaylist: Playlist = {
-          name: file.name,
-          tracks: audioFiles.sort((a, b) => a.name.localeCompare(b.name)),
-        };
-        setPlaylists(prev => {
-          const updatedPlaylists = [...prev, newPlaylist];
-          if (currentPlaylistIndex === null) {
-            setCurrentPlaylistIndex(0);
-            setCurrentTrackIndex(0);
-          }
-          return updatedPlaylists;
-        });
+      newPlaylists
+        .filter(playlist => playlist.missing.length > 0)
+        .forEach(playlist => showError(`${playlist.missing.length} entries in '${playlist.name}' were not found in the archive`));
+
+      const duplicates = findLibraryDuplicates(newPlaylists, withoutStreamed(libraryRef.current.playlists));
+      if (duplicates.length > 0) {
+        setPendingImport({ playlists: newPlaylists, duplicates });
+      } else {
+        updateLibrary(library => [...withoutStreamed(library), ...newPlaylists]);
       }
     } catch (error) {
-      console.error("Error processing zip file:", error);
+      updateLibrary(withoutStreamed);
+      if (!abortController.signal.aborted) {
+        console.error("Error processing files:", error);
+        showError(`Import failed: ${errorMessage(error)}`);
+      }
     } finally {
+      importAbortRef.current = null;
       setIsLoading(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+      setImportProgress(null);
     }
   };
 
+  const importSources = async (sources: SourceFile[]) => {
+    if (sources.length === 0) return;
+    await runImport(async () => sources);
+  };
+
+  const importFromUrl = (url: string) =>
+    runImport(async signal => {
+      const file = await downloadFile(url, {
+        signal,
+        onProgress: ({ fileName, bytesReceived, bytesTotal, attempt }) => {
+          const now = Date.now();
+          if (now - lastProgressUpdateRef.current < 100) return;
+          lastProgressUpdateRef.current = now;
+          setImportProgress({
+            stage: 'downloading',
+            archiveName: fileName,
+            archiveIndex: 1,
+            archiveCount: 1,
+            currentFile: attempt > 1 ? `Resumed after the connection dropped (attempt ${attempt})` : url,
+            percent: bytesTotal ? (bytesReceived / bytesTotal) * 100 : 0,
+            bytesDone: bytesReceived,
+            bytesTotal: bytesTotal ?? 0,
+          });
+        },
+      });
+      // The import's own progress starts over, timed from here.
+      setImportStartedAt(Date.now());
+      return [{ file, path: file.name }];
+    });
+
+  const saveImportLimits = (limits: ImportLimits) => {
+    setImportLimits(limits);
+    saveSetting('importLimits', limits);
+  };
+
+  const cancelImport = (keepImported: boolean) => {
+    keepCancelledImportRef.current = keepImported;
+    importAbortRef.current?.abort();
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const sources = event.target.files ? collectFileList(event.target.files) : [];
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    await importSources(sources);
+  };
+
+  const importSourcesRef = useRef(importSources);
+  importSourcesRef.current = importSources;
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = event.clipboardData?.files;
+      if (!files || files.length === 0) return;
+      event.preventDefault();
+      importSourcesRef.current(collectFileList(files));
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
   const currentPlaylist = currentPlaylistIndex !== null ? playlists[currentPlaylistIndex] : null;
   const currentTrack = currentPlaylist && currentTrackIndex !== null ? currentPlaylist.tracks[currentTrackIndex] : null;
+  const nextTrack = queue.length > 0
+    ? playlists[queue[0].playlistIndex].tracks[queue[0].trackIndex]
+    : currentPlaylist && currentTrackIndex !== null
+      ? currentPlaylist.tracks[(currentTrackIndex + 1) % currentPlaylist.tracks.length]
+      : null;
+  const currentTrackRef = useRef(currentTrack);
+  currentTrackRef.current = currentTrack;
 
   const playNext = useCallback(() => {
     if (queue.length > 0) {
@@ -168,16 +376,176 @@ const MusicPlayerPage = () => {
     const x = event.clientX - rect.left;
     const width = progressBar.offsetWidth;
     const percentage = x / width;
-    const newTime = percentage * audio.duration;
+    const start = currentTrack?.start ?? 0;
+    const end = currentTrack?.end ?? audio.duration;
+    const newTime = start + percentage * (end - start);
     audio.currentTime = newTime;
   };
 
+  const seekTo = (time: number) => {
+    const audio = audioRef.current;
+    if (!audio || !currentTrack) return;
+    audio.currentTime = (currentTrack.start ?? 0) + time;
+  };
+
   const addToQueue = (playlistIndex: number, trackIndex: number) => {
     setQueue(q => [...q, { playlistIndex, trackIndex }]);
     const trackName = playlists[playlistIndex].tracks[trackIndex].name;
     showSuccess(`'${trackName}' added to queue`);
   };
 
+  const playFolder = (folderPath: string) => {
+    if (!currentPlaylist) return;
+    const sourceId = currentPlaylist.id;
+    let playlistIndex = -1;
+    updateLibrary(library => {
+      playlistIndex = library.findIndex(p => p.folderOf?.playlistId === sourceId && p.folderOf.folderPath === folderPath);
+      const source = library.find(p => p.id === sourceId);
+      if (playlistIndex !== -1 || !source) return library;
+      const tracks = trackIndexesInFolder(source.tracks, folderPath).map(i => source.tracks[i]);
+      playlistIndex = library.length;
+      return [...library, createPlaylist(`${source.name} / ${folderPath}`, tracks, {
+        artwork: firstArtwork(tracks) ?? source.artwork,
+        folderOf: { playlistId: sourceId, folderPath },
+      })];
+    });
+    if (playlistIndex === -1) return;
+    setCurrentPlaylistIndex(playlistIndex);
+    setCurrentTrackIndex(0);
+    setIsPlaying(true);
+  };
+
+  const queueFolder = (folderPath: string) => {
+    if (!currentPlaylist) return;
+    const trackIndexes = trackIndexesInFolder(currentPlaylist.tracks, folderPath);
+    setQueue(q => [...q, ...trackIndexes.map(trackIndex => ({ playlistIndex: currentPlaylistIndex!, trackIndex }))]);
+    showSuccess(`${trackIndexes.length} tracks from '${folderPath}' added to queue`);
+  };
+
+  // Files are rewritten one at a time, as each is read whole into memory.
+  // A file that can't be rewritten leaves the rest of the edit saved.
+  const applyTagEdits = async (edits: TrackEdit[]) => {
+    const retagged = new Map<string, Track>();
+    const failed: string[] = [];
+    let unwritten = 0;
+    for (const { track, edit } of edits) {
+      try {
+        const result = await retagTrack(track, edit);
+        retagged.set(track.id, result.track);
+        if (!result.written) unwritten++;
+      } catch (error) {
+        console.error(`Error saving the tags of ${track.path}:`, error);
+        failed.push(`${track.name} (${errorMessage(error)})`);
+      }
+    }
+    // Only the file and its tags are replaced, so that a gain, tempo or key
+    // measured while the editor was open stays.
+    const withRetaggedFile = (track: Track) => {
+      const { tags, hash, size, sourceId, load } = retagged.get(track.id);
+      return { ...track, tags, hash, size, sourceId, load };
+    };
+    updateLibrary(library => library.map(playlist => playlist.tracks.some(track => retagged.has(track.id))
+      ? { ...playlist, tracks: playlist.tracks.map(track => retagged.has(track.id) ? withRetaggedFile(track) : track) }
+      : playlist));
+    if (retagged.size > 0) {
+      showSuccess(edits.length === 1 ? 'Tags saved' : `Tags of ${retagged.size} tracks saved`);
+    }
+    if (unwritten > 0) {
+      showError(`${unwritten} of ${edits.length} tracks keep the new tags in the player only; their files can't be retagged`);
+    }
+    if (failed.length > 0) {
+      showError(`Saving tags failed for ${failed.length} of ${edits.length} tracks: ${failed.join(', ')}`);
+    }
+  };
+
+  const applyNamingPatterns = (patterns: NamingPatterns, edits: TrackEdit[]) => {
+    setNamingPatterns(patterns);
+    saveSetting('namingPatterns', patterns);
+    applyTagEdits(edits);
+  };
+
+  const changeReplayGainMode = (mode: ReplayGainMode) => {
+    const settings = { ...replayGainSettings, mode };
+    setReplayGainSettings(settings);
+    saveSetting('replayGain', settings);
+  };
+
+  // Tracks without ReplayGain tags are measured one at a time, since each is
+  // decoded whole. Results are kept by track id, null until one is in or
+  // when measuring failed, so nothing is measured twice: a finished import
+  // replaces the tracks it streamed in, and with them anything measured.
+  const measuredGainsRef = useRef(new Map<string, ReplayGain | null>());
+  const measuringRef = useRef(Promise.resolve());
+  const withMeasuredGain = (replayGain: ReplayGain) => (track: Track) => ({ ...track, replayGain: { ...track.replayGain, ...replayGain } });
+  const measureTracks = (tracks: Track[]) => {
+    for (const track of tracks) {
+      if (!needsLoudnessAnalysis(track)) continue;
+      const measured = measuredGainsRef.current.get(track.id);
+      if (measured) updateTrack(track.id, withMeasuredGain(measured));
+      if (measuredGainsRef.current.has(track.id)) continue;
+      measuredGainsRef.current.set(track.id, null);
+      measuringRef.current = measuringRef.current
+        .then(async () => {
+          const replayGain = loudnessToReplayGain(await measureLoudness(await track.load()));
+          measuredGainsRef.current.set(track.id, replayGain);
+          updateTrack(track.id, withMeasuredGain(replayGain));
+        })
+        .catch(error => console.warn(`Could not measure the loudness of ${track.path}:`, error));
+    }
+  };
+  const measureTracksRef = useRef(measureTracks);
+  measureTracksRef.current = measureTracks;
+
+  // Tempo and key are worked out for the whole library in the background,
+  // picking each next track from the latest library so imports join in.
+  // They queue on the loudness chain, so no two files are decoded at once,
+  // and are kept by track id like the measured gains.
+  const musicAnalysesRef = useRef(new Map<string, MusicAnalysis | null>());
+  const isAnalysingRef = useRef(false);
+  const analyseLibrary = async () => {
+    if (isAnalysingRef.current) return;
+    isAnalysingRef.current = true;
+    for (;;) {
+      const pending = libraryRef.current.playlists.flatMap(playlist => playlist.tracks).filter(needsMusicAnalysis);
+      for (const track of pending) {
+        const known = musicAnalysesRef.current.get(track.id);
+        if (known && (known.bpm !== undefined || known.key)) updateTrack(track.id, other => ({ ...other, ...known }));
+      }
+      const track = pending.find(track => !musicAnalysesRef.current.has(track.id));
+      if (!track) break;
+      musicAnalysesRef.current.set(track.id, null);
+      const analysis = measuringRef.current.then(async () => analyseMusic(await track.load()));
+      measuringRef.current = analysis.then(() => undefined, () => undefined);
+      try {
+        const { bpm, key } = await analysis;
+        musicAnalysesRef.current.set(track.id, { bpm, key });
+        updateTrack(track.id, other => ({ ...other, bpm, key }));
+      } catch (error) {
+        console.warn(`Could not analyse the tempo and key of ${track.path}:`, error);
+      }
+    }
+    isAnalysingRef.current = false;
+  };
+  const analyseLibraryRef = useRef(analyseLibrary);
+  analyseLibraryRef.current = analyseLibrary;
+
+  const downloadTrackFile = (track: Track) => {
+    downloadTrack(track).catch(error => showError(`Download failed: ${errorMessage(error)}`));
+  };
+
+  const exportCurrentPlaylist = async () => {
+    if (!currentPlaylist) return;
+    setIsExporting(true);
+    try {
+      saveBlob(await exportPlaylist(currentPlaylist), `${currentPlaylist.name}.zip`);
+    } catch (error) {
+      console.error("Error exporting playlist:", error);
+      showError(`Export failed: ${errorMessage(error)}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const removeFromQueue = (queueIndex: number) => {
     setQueue(q => q.filter((_, index) => index !== queueIndex));
   };
@@ -186,6 +554,8 @@ const MusicPlayerPage = () => {
     const audio = audioRef.current;
     if (!audio) return;
     if (isPlaying) {
+      // The track may still be extracting; it starts once its URL is ready.
+      if (loadedSourceIdRef.current !== currentTrack?.sourceId) return;
       audio.play().catch(e => console.error("Playback error:", e));
     } else {
       audio.pause();
@@ -194,25 +564,115 @@ const MusicPlayerPage = () => {
 
   useEffect(() => {
     const audio = audioRef.current;
-    if (audio && currentTrack) {
-      audio.src = currentTrack.url;
-      if (isPlaying) {
-        audio.play().catch(e => console.error("Playback error:", e));
+    if (!audio || !currentTrack) return;
+
+    // An updated copy of the playing track, such as one whose tags were just
+    // edited or loudness measured, plays on undisturbed. A retagged file is
+    // a new source holding the same audio.
+    if (loadedTrackIdRef.current === currentTrack.id && loadedSourceIdRef.current !== null) {
+      loadedSourceIdRef.current = currentTrack.sourceId;
+      return;
+    }
+    loadedTrackIdRef.current = currentTrack.id;
+
+    const start = currentTrack.start ?? 0;
+    endedTrackIdRef.current = null;
+    setProgress(0);
+    setCurrentTime(0);
+
+    // Tracks cut from the same file by a CUE sheet only need a seek, and
+    // none at all when playback has just run on into the next one.
+    if (loadedSourceIdRef.current === currentTrack.sourceId) {
+      if (Math.abs(audio.currentTime - start) > 0.5) {
+        audio.currentTime = start;
       }
+      return;
     }
+
+    let cancelled = false;
+    audio.pause();
+    loadedSourceIdRef.current = null;
+    getTrackUrl(currentTrack)
+      .then(url => {
+        if (cancelled) return;
+        audio.src = url;
+        audio.currentTime = start;
+        loadedSourceIdRef.current = currentTrack.sourceId;
+        if (isPlaying) {
+          audio.play().catch(e => console.error("Playback error:", e));
+        }
+      })
+      .catch(e => console.error("Error extracting track:", e));
+
+    return () => {
+      cancelled = true;
+    };
   }, [currentTrack]);
+
+  // The player only goes through Web Audio once a track needs a gain. The
+  // effect also runs on play, as that is when the audio context may start.
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !currentTrack || !currentPlaylist) return;
+    const gain = playbackGain(currentTrack, albumTracks(currentPlaylist.tracks, currentTrack), replayGainSettings);
+    if (gain === 1 && !isLevelling(audio)) return;
+    const node = levellingGain(audio);
+    node.gain.setTargetAtTime(gain, node.context.currentTime, 0.05);
+  }, [currentTrack, currentPlaylist, replayGainSettings, isPlaying]);
+
+  // Album mode needs the whole album measured, so the rest of it follows the current track.
+  useEffect(() => {
+    if (replayGainSettings.mode === 'off' || !currentTrack || !currentPlaylist) return;
+    measureTracksRef.current(replayGainSettings.mode === 'album'
+      ? [currentTrack, ...albumTracks(currentPlaylist.tracks, currentTrack)]
+      : [currentTrack]);
+  }, [currentTrack, currentPlaylist, replayGainSettings]);
+
+  useEffect(() => {
+    analyseLibraryRef.current();
+  }, [playlists]);
+
+  useEffect(() => {
+    if (!nextTrack || !currentTrack || nextTrack.sourceId === currentTrack.sourceId) return;
+    // Preload the upcoming track once the current one is ready.
+    getTrackUrl(currentTrack)
+      .then(() => getTrackUrl(nextTrack))
+      .catch(e => console.error("Error preloading track:", e));
+  }, [currentTrack, nextTrack]);
   
   useEffect(() => {
     const audio = audioRef.current;
     if (!audio) return;
 
+    const trackBounds = () => {
+      const track = currentTrackRef.current;
+      if (!track || loadedSourceIdRef.current !== track.sourceId) return null;
+      return { track, start: track.start ?? 0, end: track.end ?? audio.duration };
+    };
+
     const updateProgress = () => {
-      if (audio.duration > 0) {
-        setProgress((audio.currentTime / audio.duration) * 100);
-        setCurrentTime(audio.currentTime);
+      const bounds = trackBounds();
+      if (!bounds) return;
+      const { track, start, end } = bounds;
+
+      if (track.end !== undefined && audio.currentTime >= track.end) {
+        // A virtual track ends before its file does; only advance once.
+        if (endedTrackIdRef.current !== track.id) {
+          endedTrackIdRef.current = track.id;
+          playNext();
+        }
+        return;
       }
+      if (end - start > 0) {
+        setProgress(((audio.currentTime - start) / (end - start)) * 100);
+        setCurrentTime(audio.currentTime - start);
+        setDuration(end - start);
+      }
+    };
+    const setAudioDuration = () => {
+      const bounds = trackBounds();
+      if (bounds) setDuration(bounds.end - bounds.start);
     };
-    const setAudioDuration = () => setDuration(audio.duration);
     const handleEnded = () => playNext();
 
     audio.addEventListener('timeupdate', updateProgress);
@@ -228,150 +688,296 @@ const MusicPlayerPage = () => {
 
   return (
     <div className="min-h-screen bg-gray-100 dark:bg-gray-900 flex items-center justify-center p-4">
-      <Card className="w-full max-w-md">
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Music className="w-6 h-6" />
-            Minimalist Music Player
-          </CardTitle>
-          <CardDescription>Upload .zip files of your songs to build playlists.</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="flex flex-col gap-6">
-            <Input
-              type="file"
-              accept=".zip"
-              onChange={handleFileUpload}
-              ref={fileInputRef}
-              className="hidden"
-            />
-            <Button onClick={() => fileInputRef.current?.click()} disabled={isLoading}>
-              {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
-              {isLoading ? 'Processing...' : (playlists.length > 0 ? 'Add Another Zip' : 'Upload Zip File')}
-            </Button>
-
-            {playlists.length > 1 && currentPlaylistIndex !== null && (
-              <Select onValueChange={handlePlaylistChange} value={currentPlaylistIndex.toString()}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select a playlist" />
-                </SelectTrigger>
-                <SelectContent>
-                  {playlists.map((playlist, index) => (
-                    <SelectItem key={index} value={index.toString()}>
-                      {playlist.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            )}
-
-            {currentPlaylist && currentTrack ? (
-              <div className="flex flex-col gap-4 items-center">
-                <div className="text-center">
-                  <p className="font-semibold text-lg truncate max-w-[300px]">{currentTrack.name}</p>
-                  <p className="text-sm text-muted-foreground">
-                    Track {currentTrackIndex! + 1} of {currentPlaylist.tracks.length}
-                  </p>
+      <DropZone onFiles={importSources} disabled={isLoading} className="w-full max-w-md">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ArtworkImage
+                artwork={currentPlaylist?.artwork}
+                className="w-6 h-6 rounded-sm"
+                fallback={<Music className="w-6 h-6" />}
+              />
+              Minimalist Music Player
+            </CardTitle>
+            <CardDescription>Upload, drop or paste .zip or .tar(.gz) archives, audio files or folders to build playlists.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col gap-6">
+              <Input
+                type="file"
+                accept={`${ARCHIVE_ACCEPT},audio/*,${ATTACHMENT_ACCEPT}`}
+                multiple
+                onChange={handleFileUpload}
+                ref={fileInputRef}
+                className="hidden"
+              />
+              {isLoading ? (
+                <ImportProgressPanel progress={importProgress} startedAt={importStartedAt} onCancel={cancelImport} />
+              ) : (
+                <div className="flex gap-2">
+                  <Button className="flex-grow" onClick={() => fileInputRef.current?.click()}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    {playlists.length > 0 ? 'Add More Music' : 'Upload Music'}
+                  </Button>
+                  <Button variant="outline" size="icon" title="Import from URL" onClick={() => setIsUrlImportOpen(true)}>
+                    <Link className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" title="Import limits" onClick={() => setIsSettingsOpen(true)}>
+                    <Settings className="h-4 w-4" />
+                  </Button>
+                  {importReport && (
+                    <Button variant="outline" size="icon" title="Import report" onClick={() => setIsReportOpen(true)}>
+                      <ClipboardList className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
+              )}
+
+              {playlists.length > 1 && currentPlaylistIndex !== null && (
+                <Select onValueChange={handlePlaylistChange} value={currentPlaylistIndex.toString()}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a playlist" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {playlists.map((playlist, index) => (
+                      <SelectItem key={index} value={index.toString()}>
+                        {playlist.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {currentPlaylist && currentTrack ? (
+                <div className="flex flex-col gap-4 items-center">
+                  <ArtworkImage
+                    artwork={currentTrack.artwork ?? currentPlaylist.artwork}
+                    className="w-40 h-40 rounded-md shadow-md"
+                    fallback={
+                      <div className="w-40 h-40 rounded-md bg-secondary flex items-center justify-center">
+                        <Music className="w-16 h-16 text-muted-foreground" />
+                      </div>
+                    }
+                  />
+                  <div className="text-center">
+                    <p className="font-semibold text-lg truncate max-w-[300px]" title={currentTrack.name}>{trackTitle(currentTrack)}</p>
+                    {describeTrack(currentTrack) && (
+                      <p className="text-sm truncate max-w-[300px]">{describeTrack(currentTrack)}</p>
+                    )}
+                    <p className="text-sm text-muted-foreground">
+                      {[`Track ${currentTrackIndex! + 1} of ${currentPlaylist.tracks.length}`, trackDetails(currentTrack), describeTempoAndKey(currentTrack)].filter(Boolean).join(' · ')}
+                    </p>
+                    {currentTrack.tags.comment && (
+                      <p className="text-xs text-muted-foreground italic truncate max-w-[300px]" title={currentTrack.tags.comment}>
+                        {currentTrack.tags.comment}
+                      </p>
+                    )}
+                  </div>
 
-                <div className="w-full">
-                  <div className="w-full bg-secondary rounded-full cursor-pointer" onClick={handleSeek}>
-                    <Progress value={progress} />
+                  <div className="w-full">
+                    <div className="relative w-full bg-secondary rounded-full cursor-pointer" onClick={handleSeek}>
+                      <Progress value={progress} />
+                      {currentTrack.chapters && <ChapterMarkers chapters={currentTrack.chapters} duration={duration} />}
+                    </div>
+                    <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                      <span>{formatTime(currentTime)}</span>
+                      <span>{formatTime(duration || currentTrack.duration)}</span>
+                    </div>
                   </div>
-                  <div className="flex justify-between text-xs text-muted-foreground mt-1">
-                    <span>{formatTime(currentTime)}</span>
-                    <span>{formatTime(duration)}</span>
+
+                  <div className="flex items-center gap-4">
+                    <Button variant="ghost" size="icon" onClick={playPrevious}><SkipBack className="w-6 h-6" /></Button>
+                    <Button variant="default" size="icon" className="w-16 h-16 rounded-full" onClick={togglePlayPause}>
+                      {isPlaying ? <Pause className="w-8 h-8" /> : <Play className="w-8 h-8" />}
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={playNext}><SkipForward className="w-6 h-6" /></Button>
                   </div>
-                </div>
 
-                <div className="flex items-center gap-4">
-                  <Button variant="ghost" size="icon" onClick={playPrevious}><SkipBack className="w-6 h-6" /></Button>
-                  <Button variant="default" size="icon" className="w-16 h-16 rounded-full" onClick={togglePlayPause}>
-                    {isPlaying ? <Pause className="w-8 h-8" /> : <Play className="w-8 h-8" />}
-                  </Button>
-                  <Button variant="ghost" size="icon" onClick={playNext}><SkipForward className="w-6 h-6" /></Button>
+                  <Select value={replayGainSettings.mode} onValueChange={(mode) => changeReplayGainMode(mode as ReplayGainMode)}>
+                    <SelectTrigger className="w-48 h-8 text-xs" title="Volume levelling with ReplayGain">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="off">Levelling off</SelectItem>
+                      <SelectItem value="track">Level each track</SelectItem>
+                      <SelectItem value="album">Level by album</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  {currentTrack.chapters && (
+                    <ChapterList chapters={currentTrack.chapters} currentTime={currentTime} onSeek={seekTo} />
+                  )}
                 </div>
-              </div>
-            ) : (
-              <div className="text-center text-muted-foreground py-8">
-                <p>Your playlist will appear here.</p>
-              </div>
-            )}
-
-            {currentPlaylist && (
-              <Accordion type="single" collapsible defaultValue="playlist" className="w-full">
-                <AccordionItem value="playlist">
-                  <AccordionTrigger>Playlist: {currentPlaylist.name}</AccordionTrigger>
-                  <AccordionContent>
-                    <ScrollArea className="h-48 w-full rounded-md border">
-                      <div className="p-2">
-                        {currentPlaylist.tracks.map((track, index) => (
-                          <div
-                            key={index}
-                            className={cn(
-                              "p-2 rounded-md flex items-center justify-between gap-2 group",
-                              index === currentTrackIndex && currentPlaylistIndex === playlists.findIndex(p => p.name === currentPlaylist.name) && "bg-accent text-accent-foreground"
-                            )}
-                          >
-                            <div onClick={() => selectTrack(index)} className="flex items-center gap-2 cursor-pointer flex-grow truncate">
-                              {index === currentTrackIndex && isPlaying && <Play className="w-4 h-4" />}
-                              {index === currentTrackIndex && !isPlaying && <Pause className="w-4 h-4" />}
-                              {index !== currentTrackIndex && <Music className="w-4 h-4" />}
-                              <span className="truncate">{track.name}</span>
-                            </div>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-6 w-6 flex-shrink-0 invisible group-hover:visible"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                addToQueue(currentPlaylistIndex!, index);
-                              }}
-                            >
-                              <Plus className="w-4 h-4" />
-                            </Button>
-                          </div>
-                        ))}
-                      </div>
-                    </ScrollArea>
-                  </AccordionContent>
-                </AccordionItem>
-                <AccordionItem value="queue">
-                  <AccordionTrigger>Queue ({queue.length})</AccordionTrigger>
-                  <AccordionContent>
-                    <ScrollArea className="h-48 w-full rounded-md border">
-                      <div className="p-2">
-                        {queue.length > 0 ? (
-                          queue.map((queuedTrack, index) => {
-                            const playlist = playlists[queuedTrack.playlistIndex];
-                            const track = playlist.tracks[queuedTrack.trackIndex];
-                            return (
-                              <div key={index} className="p-2 rounded-md flex items-center justify-between gap-2 hover:bg-accent">
-                                <div className="flex items-center gap-2 truncate">
-                                  <Music className="w-4 h-4" />
-                                  <div className="truncate">
-                                    <p className="truncate">{track.name}</p>
-                                    <p className="text-xs text-muted-foreground truncate">{playlist.name}</p>
+              ) : (
+                <div className="text-center text-muted-foreground py-8">
+                  <p>Your playlist will appear here.</p>
+                </div>
+              )}
+
+              {currentPlaylist && (
+                <Accordion type="single" collapsible defaultValue="playlist" className="w-full">
+                  <AccordionItem value="playlist">
+                    <div className="flex items-center gap-2 [&>h3]:flex-1">
+                      <AccordionTrigger>
+                        <span className="truncate">
+                          Playlist: {currentPlaylist.name}
+                          <span className="text-muted-foreground font-normal"> · {formatTotalDuration(currentPlaylist.tracks)}</span>
+                        </span>
+                      </AccordionTrigger>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8 flex-shrink-0"
+                        title="Tags from file names"
+                        onClick={() => setIsNamingOpen(true)}
+                      >
+                        <Wand2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8 flex-shrink-0"
+                        title="Export playlist as ZIP"
+                        disabled={isExporting}
+                        onClick={exportCurrentPlaylist}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      {currentPlaylist.attachments.length > 0 && (
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          className="h-8 w-8 flex-shrink-0"
+                          title="Booklet and notes"
+                          onClick={() => setIsBookletOpen(true)}
+                        >
+                          <BookOpen className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <AccordionContent>
+                      <FolderBrowser
+                        key={currentPlaylistIndex}
+                        rootName={currentPlaylist.name}
+                        tracks={currentPlaylist.tracks}
+                        currentTrackIndex={currentTrackIndex}
+                        isPlaying={isPlaying}
+                        onSelectTrack={selectTrack}
+                        onQueueTrack={(index) => addToQueue(currentPlaylistIndex!, index)}
+                        onPlayFolder={playFolder}
+                        onQueueFolder={queueFolder}
+                        onEditTags={setEditingTracks}
+                        onDownloadTrack={(index) => downloadTrackFile(currentPlaylist.tracks[index])}
+                      />
+                    </AccordionContent>
+                  </AccordionItem>
+                  <AccordionItem value="queue">
+                    <AccordionTrigger>Queue ({queue.length})</AccordionTrigger>
+                    <AccordionContent>
+                      <ScrollArea className="h-48 w-full rounded-md border">
+                        <div className="p-2">
+                          {queue.length > 0 ? (
+                            queue.map((queuedTrack, index) => {
+                              const playlist = playlists[queuedTrack.playlistIndex];
+                              const track = playlist.tracks[queuedTrack.trackIndex];
+                              return (
+                                <div key={index} className="p-2 rounded-md flex items-center justify-between gap-2 hover:bg-accent">
+                                  <div className="flex items-center gap-2 truncate">
+                                    <ArtworkImage
+                                      artwork={track.artwork ?? playlist.artwork}
+                                      className="w-8 h-8 rounded-sm flex-shrink-0"
+                                      fallback={<Music className="w-4 h-4 flex-shrink-0" />}
+                                    />
+                                    <div className="truncate">
+                                      <p className="truncate">{trackTitle(track)}</p>
+                                      <p className="text-xs text-muted-foreground truncate">
+                                        {[trackArtist(track), [playlist.name, dirname(track.path)].filter(Boolean).join(' / ')].filter(Boolean).join(' · ')}
+                                      </p>
+                                    </div>
                                   </div>
+                                  <Button variant="ghost" size="icon" className="h-6 w-6 flex-shrink-0" onClick={() => removeFromQueue(index)}>
+                                    <X className="w-4 h-4" />
+                                  </Button>
                                 </div>
-                                <Button variant="ghost" size="icon" className="h-6 w-6 flex-shrink-0" onClick={() => removeFromQueue(index)}>
-                                  <X className="w-4 h-4" />
-                                </Button>
+                              );
+                            })
+                          ) : (
+                            <p className="text-center text-sm text-muted-foreground p-4">Queue is empty.</p>
+                          )}
+                        </div>
+                      </ScrollArea>
+                    </AccordionContent>
+                  </AccordionItem>
+                  {currentPlaylist.missing.length > 0 && (
+                    <AccordionItem value="missing">
+                      <AccordionTrigger>Missing ({currentPlaylist.missing.length})</AccordionTrigger>
+                      <AccordionContent>
+                        <ScrollArea className="h-48 w-full rounded-md border">
+                          <div className="p-2">
+                            {currentPlaylist.missing.map((location, index) => (
+                              <div key={index} className="p-2 rounded-md flex items-center gap-2 text-muted-foreground">
+                                <FileX className="w-4 h-4 flex-shrink-0" />
+                                <p className="truncate">{location}</p>
                               </div>
-                            );
-                          })
-                        ) : (
-                          <p className="text-center text-sm text-muted-foreground p-4">Queue is empty.</p>
-                        )}
-                      </div>
-                    </ScrollArea>
-                  </AccordionContent>
-                </AccordionItem>
-              </Accordion>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+                            ))}
+                          </div>
+                        </ScrollArea>
+                      </AccordionContent>
+                    </AccordionItem>
+                  )}
+                  {currentPlaylist.unsupported.length > 0 && (
+                    <AccordionItem value="unsupported">
+                      <AccordionTrigger>Unsupported ({currentPlaylist.unsupported.length})</AccordionTrigger>
+                      <AccordionContent>
+                        <ScrollArea className="h-48 w-full rounded-md border">
+                          <div className="p-2">
+                            {currentPlaylist.unsupported.map((file, index) => (
+                              <div key={index} className="p-2 rounded-md flex items-center gap-2 text-muted-foreground">
+                                <FileX className="w-4 h-4 flex-shrink-0" />
+                                <div className="truncate">
+                                  <p className="truncate">{file.path}</p>
+                                  <p className="text-xs truncate">{file.reason}</p>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        </ScrollArea>
+                      </AccordionContent>
+                    </AccordionItem>
+                  )}
+                </Accordion>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </DropZone>
+      <ImportReportDialog report={importReport} open={isReportOpen} onOpenChange={setIsReportOpen} />
+      <DuplicateImportDialog duplicates={pendingImport?.duplicates ?? null} onChoose={resolveDuplicates} />
+      <PasswordDialog prompt={passwordPrompt} onAnswer={answerPassword} />
+      <CharsetDialog prompt={charsetPrompt} onAnswer={answerCharset} />
+      <UrlImportDialog open={isUrlImportOpen} onOpenChange={setIsUrlImportOpen} onImport={importFromUrl} />
+      <BookletDialog playlist={currentPlaylist} open={isBookletOpen} onOpenChange={setIsBookletOpen} />
+      <TagEditorDialog
+        tracks={editingTracks}
+        onClose={() => setEditingTracks(null)}
+        onSave={(tracks, edit) => {
+          setEditingTracks(null);
+          applyTagEdits(tracks.map(track => ({ track, edit })));
+        }}
+      />
+      <NamingPatternsDialog
+        tracks={currentPlaylist?.tracks ?? []}
+        patterns={namingPatterns}
+        open={isNamingOpen}
+        onOpenChange={setIsNamingOpen}
+        onApply={applyNamingPatterns}
+      />
+      <ImportSettingsDialog
+        limits={importLimits}
+        open={isSettingsOpen}
+        onOpenChange={setIsSettingsOpen}
+        onSave={saveImportLimits}
+      />
       <audio ref={audioRef} />
       <div className="absolute bottom-0 right-0 p-4">
         <MadeWithDyad />
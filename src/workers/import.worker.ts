@@ -0,0 +1,101 @@
+import { setPlayableMimeTypes } from "@/lib/audio-format";
+import { loadSource } from "@/lib/content-store";
+import { importFiles } from "@/lib/import/file-import";
+import { errorMessage } from "@/lib/import/import-report";
+import {
+  toPlaylistData,
+  toTrackData,
+  type TrackData,
+  type WorkerRequest,
+  type WorkerResponse,
+} from "@/lib/import/worker-protocol";
+
+const TRACK_BATCH_INTERVAL = 200;
+
+const scope = self as unknown as Worker;
+const imports = new Map<number, AbortController>();
+const passwordAnswers = new Map<number, (password: string | null) => void>();
+const charsetAnswers = new Map<number, (charset: string | null) => void>();
+
+const post = (response: WorkerResponse) => scope.postMessage(response);
+
+async function runImport({ id, sources, limits, playableMimeTypes }: Extract<WorkerRequest, { type: "import" }>) {
+  const abortController = new AbortController();
+  imports.set(id, abortController);
+  setPlayableMimeTypes(playableMimeTypes);
+
+  // Tracks are sent in batches so a folder of small files doesn't flood the page with messages.
+  const pending = new Map<string, { playlistName: string; tracks: TrackData[] }>();
+  let flushTimer: ReturnType<typeof setTimeout> | undefined;
+  const flush = () => {
+    flushTimer = undefined;
+    pending.forEach(({ playlistName, tracks }, playlistId) => post({ type: "tracks", id, playlistId, playlistName, tracks }));
+    pending.clear();
+  };
+
+  try {
+    const result = await importFiles(sources, {
+      signal: abortController.signal,
+      limits,
+      onUpdate: progress => post({ type: "progress", id, progress }),
+      requestPassword: (archiveName, retry) => new Promise(resolve => {
+        passwordAnswers.set(id, resolve);
+        post({ type: "password", id, archiveName, retry });
+      }),
+      requestCharset: (archiveName, samples, guess) => new Promise(resolve => {
+        charsetAnswers.set(id, resolve);
+        post({ type: "charset", id, archiveName, samples, guess });
+      }),
+      onTrack: (playlistId, playlistName, track) => {
+        if (!pending.has(playlistId)) pending.set(playlistId, { playlistName, tracks: [] });
+        pending.get(playlistId).tracks.push(toTrackData(track));
+        flushTimer ??= setTimeout(flush, TRACK_BATCH_INTERVAL);
+      },
+    });
+    clearTimeout(flushTimer);
+    flush();
+    post({ type: "imported", id, ...result, playlists: result.playlists.map(toPlaylistData) });
+  } catch (error) {
+    clearTimeout(flushTimer);
+    post({ type: "failed", id, message: errorMessage(error) });
+  } finally {
+    imports.delete(id);
+  }
+}
+
+async function runLoad({ id, sourceId }: Extract<WorkerRequest, { type: "load" }>) {
+  try {
+    // Blobs are posted by reference, so the page gets the audio without a copy.
+    post({ type: "loaded", id, blob: await loadSource(sourceId) });
+  } catch (error) {
+    post({ type: "failed", id, message: errorMessage(error) });
+  }
+}
+
+scope.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case "import":
+      runImport(request);
+      break;
+    case "abort":
+      imports.get(request.id)?.abort();
+      // A prompt still waiting is declined, so the import can wind down.
+      passwordAnswers.get(request.id)?.(null);
+      passwordAnswers.delete(request.id);
+      charsetAnswers.get(request.id)?.(null);
+      charsetAnswers.delete(request.id);
+      break;
+    case "password":
+      passwordAnswers.get(request.id)?.(request.password);
+      passwordAnswers.delete(request.id);
+      break;
+    case "charset":
+      charsetAnswers.get(request.id)?.(request.charset);
+      charsetAnswers.delete(request.id);
+      break;
+    case "load":
+      runLoad(request);
+      break;
+  }
+});